@@ -12,11 +12,14 @@ import {
     Character,
     IAgentRuntime,
     IDatabaseAdapter,
+    IPerformanceService,
     ModelProviderName,
+    ServiceType,
 } from "@ai16z/eliza/src/types.ts";
 import { bootstrapPlugin } from "@ai16z/plugin-bootstrap/src/index.ts";
 import { solanaPlugin } from "@ai16z/plugin-solana/src/index.ts";
 import { nodePlugin } from "@ai16z/plugin-node/src/index.ts";
+import { createPerformancePlugin } from "@ai16z/plugin-performance/src/index.ts";
 import Database from "better-sqlite3";
 import fs from "fs";
 import yargs from "yargs";
@@ -229,7 +232,8 @@ export async function createAgent(
             nodePlugin,
             character.settings.secrets.WALLET_PUBLIC_KEY
                 ? solanaPlugin
-                : null
+                : null,
+            character.role ? createPerformancePlugin() : null,
         ].filter(Boolean),
         providers: [],
         actions: [],
@@ -245,6 +249,12 @@ async function startAgent(character: Character, directClient?: any) {
 
         const runtime = await createAgent(character, db, token);
 
+        if (character.role) {
+            runtime
+                .getService<IPerformanceService>(ServiceType.PERFORMANCE)
+                .initialize(runtime);
+        }
+
         const clients = await initializeClients(
             character,
             runtime as IAgentRuntime
@@ -0,0 +1,48 @@
+import { createAfkState, getPresence, recordPhase } from "../src/afk.ts";
+
+describe("recordPhase", () => {
+    const players = ["a", "b"];
+
+    it("should mark a player AFK after enough missed phases in a row", () => {
+        let afk = createAfkState();
+        for (let phase = 0; phase < 2; phase++) {
+            const result = recordPhase(afk, players, new Set(["a"]), 3, "bot");
+            expect(result.changes).toEqual([]);
+            afk = result.afk;
+        }
+
+        const { afk: next, changes } = recordPhase(afk, players, new Set(["a"]), 3, "bot");
+        expect(changes).toEqual([{ publicKey: "b", presence: "bot", missedPhases: 3 }]);
+        expect(getPresence(next, "b")).toBe("bot");
+        expect(getPresence(next, "a")).toBe("active");
+
+        // Already AFK, nothing more to announce
+        expect(recordPhase(next, players, new Set(["a"]), 3, "bot").changes).toEqual([]);
+    });
+
+    it("should only count misses in a row", () => {
+        let afk = createAfkState();
+        [new Set<string>(), new Set(["b"]), new Set<string>()].forEach((answered) => {
+            afk = recordPhase(afk, ["b"], answered, 2, "disconnected").afk;
+        });
+        expect(afk.missedPhases).toEqual({ b: 1 });
+        expect(getPresence(afk, "b")).toBe("active");
+    });
+
+    it("should bring a player back as soon as they answer", () => {
+        const afk = recordPhase(createAfkState(), ["b"], new Set(), 1, "disconnected").afk;
+        expect(getPresence(afk, "b")).toBe("disconnected");
+
+        const { afk: next, changes } = recordPhase(afk, ["b"], new Set(["b"]), 1, "disconnected");
+        expect(changes).toEqual([{ publicKey: "b", presence: "active", missedPhases: 1 }]);
+        expect(next).toEqual(createAfkState());
+        // The earlier state is left as it was
+        expect(getPresence(afk, "b")).toBe("disconnected");
+    });
+
+    it("should never mark anyone with 0 allowed misses", () => {
+        const { afk, changes } = recordPhase(createAfkState(), ["b"], new Set(), 0, "bot");
+        expect(changes).toEqual([]);
+        expect(afk.missedPhases).toEqual({ b: 1 });
+    });
+});
@@ -0,0 +1,103 @@
+import { getBotResponse } from "../src/amongUsBots.ts";
+
+/**
+ * A view from room 0 of six, with the players given as publicKey -> room
+ * (undefined when out of sight)
+ */
+function view(role: "crewmate" | "impostor", phase: string, rooms: Record<string, number | undefined>, extra: any = {}): any {
+    return {
+        game: "amongus",
+        phase,
+        roomCount: 6,
+        yourPublicKey: "me",
+        yourRole: { type: role, room: 0 },
+        canKill: role === "impostor" ? true : undefined,
+        canReport: false,
+        tasks: { total: 6, completed: 0, rooms: [] },
+        players: [
+            { publicKey: "me", isAlive: true, room: 0, role: role === "impostor" ? "impostor" : undefined },
+            ...Object.entries(rooms).map(([publicKey, room]) => ({
+                publicKey,
+                isAlive: true,
+                room,
+                role: role === "impostor" ? (publicKey === "partner" ? "impostor" : "crewmate") : undefined,
+            })),
+        ],
+        observations: [],
+        voteHistory: [],
+        accusations: [],
+        ...extra,
+    };
+}
+
+describe("heuristic impostor", () => {
+    it("should only kill a crewmate caught alone", () => {
+        expect(getBotResponse(view("impostor", "action", { a: 0, partner: 0 }))).toEqual({ type: "kill", target: "a" });
+        expect(getBotResponse(view("impostor", "action", { a: 0, b: 0 }))).toEqual({ type: "pass" });
+        expect(getBotResponse(view("impostor", "action", { a: 0 }, { canKill: false }))).toEqual({ type: "pass" });
+    });
+
+    it("should head for a crewmate known to be alone", () => {
+        const observations = [{ type: "player_left", round: 1, publicKey: "a", from: 0, to: 1 }];
+        expect(getBotResponse(view("impostor", "movement", { a: undefined, b: 0, c: 0 }, { observations }))).toEqual({
+            type: "clockwise",
+        });
+    });
+
+    it("should never vote out its partner", () => {
+        expect(getBotResponse(view("impostor", "voting", { partner: 2 }, { accusedPlayer: "partner" }))).toMatchObject({
+            target: null,
+        });
+        expect(getBotResponse(view("impostor", "voting", { a: 2 }, { accusedPlayer: "a" }))).toMatchObject({ target: "a" });
+    });
+});
+
+describe("heuristic crewmate", () => {
+    const observations = [
+        { type: "room_occupants", round: 1, room: 0, players: ["a", "victim"], bodies: [] },
+        { type: "body_found", round: 3, room: 0, victim: "victim" },
+        { type: "room_occupants", round: 3, room: 0, players: ["a"], bodies: ["victim"] },
+    ];
+
+    it("should report bodies first", () => {
+        expect(getBotResponse(view("crewmate", "action", { a: 0 }, { canReport: true, observations }))).toEqual({
+            type: "report",
+        });
+    });
+
+    it("should accuse whoever was left with the victim", () => {
+        expect(getBotResponse(view("crewmate", "action", { a: 0, b: 3 }, { observations }))).toEqual({
+            type: "accuse",
+            target: "a",
+            accusationText: "a: round 1: last seen with victim in room 0; round 3: in room 0 with victim's body",
+        });
+        // Cleared by an earlier vote, the circumstantial evidence is not enough again
+        const voteHistory = [{ round: 3, accusedPlayer: "a", votes: [], ejected: null }];
+        expect(getBotResponse(view("crewmate", "action", { a: 0, b: 3 }, { observations, voteHistory }))).toEqual({
+            type: "pass",
+        });
+    });
+
+    it("should vote on evidence and skip without it", () => {
+        expect(getBotResponse(view("crewmate", "voting", { a: 0, b: 3 }, { observations, accusedPlayer: "a" }))).toMatchObject({
+            target: "a",
+        });
+        expect(getBotResponse(view("crewmate", "voting", { a: 0, b: 3 }, { observations, accusedPlayer: "b" }))).toEqual({
+            target: null,
+            voteText: "Not enough evidence",
+        });
+    });
+
+    it("should walk the short way to unfinished tasks", () => {
+        const tasks = { total: 6, completed: 4, rooms: [4] };
+        expect(getBotResponse(view("crewmate", "movement", {}, { tasks }))).toEqual({ type: "counterclockwise" });
+        expect(getBotResponse(view("crewmate", "movement", {}, { tasks: { ...tasks, rooms: [0] } }))).toEqual({ type: "stay" });
+    });
+});
+
+describe("getBotResponse", () => {
+    it("should keep the random strategy and refuse unknown ones", () => {
+        expect(["stay", "clockwise", "counterclockwise"]).toContain(getBotResponse(view("crewmate", "movement", {}), "random").type);
+        expect(() => getBotResponse(view("crewmate", "movement", {}), "genius")).toThrow("Unknown bot strategy genius");
+    });
+});
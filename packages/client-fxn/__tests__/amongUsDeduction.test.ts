@@ -0,0 +1,69 @@
+import { formatSuspicionTable, scoreSuspicion } from "../src/amongUsDeduction.ts";
+import { Observation } from "../src/types.ts";
+
+function view(role: "crewmate" | "impostor", players: Array<{ publicKey: string; isAlive?: boolean; role?: string }>): any {
+    return {
+        game: "amongus",
+        phase: "voting",
+        yourPublicKey: "me",
+        yourRole: { type: role, room: 0 },
+        players: [{ publicKey: "me", isAlive: true }, ...players.map((p) => ({ isAlive: true, ...p }))],
+    };
+}
+
+describe("scoreSuspicion", () => {
+    it("should weigh what the player saw, most suspicious first", () => {
+        const observations: Observation[] = [
+            { type: "room_occupants", round: 1, room: 2, players: ["a", "victim"], bodies: [] },
+            { type: "witnessed_kill", round: 2, room: 0, killer: "b", victim: "other" },
+            { type: "body_found", round: 3, room: 2, victim: "victim" },
+            { type: "room_occupants", round: 3, room: 2, players: ["c"], bodies: ["victim"] },
+            { type: "room_occupants", round: 4, room: 2, players: ["c"], bodies: ["victim"] },
+            {
+                type: "meeting_called", round: 4, reportedBody: "victim", reporter: "c",
+                accusations: [{ accuser: "c", target: "me", accusationText: "lurking" }],
+            },
+        ];
+        const suspicions = scoreSuspicion(observations, view("crewmate", [
+            { publicKey: "a" }, { publicKey: "b" }, { publicKey: "c" },
+        ]));
+
+        expect(suspicions.map((s) => [s.publicKey, s.score])).toEqual([["b", 10], ["c", 3], ["a", 2]]);
+        expect(suspicions[1].evidence).toEqual([
+            "round 3: in room 2 with victim's body",
+            "round 4: reported victim's body",
+            "round 4: falsely accused you",
+        ]);
+        expect(suspicions[2].evidence).toEqual(["round 1: last seen with victim in room 2"]);
+    });
+
+    it("should leave out the dead and impostor partners", () => {
+        const observations: Observation[] = [
+            { type: "ejected", round: 2, publicKey: "gone" },
+            {
+                type: "meeting_called", round: 3, accusedPlayer: "me",
+                accusations: [{ accuser: "a", target: "me" }],
+            },
+            {
+                type: "vote_tallied", round: 3,
+                record: { round: 3, accusedPlayer: "me", votes: [{ voter: "a", target: "me", voteText: "sus" }], ejected: null },
+            },
+        ];
+        const suspicions = scoreSuspicion(observations, view("impostor", [
+            { publicKey: "a", role: "crewmate" }, { publicKey: "gone", role: "crewmate" }, { publicKey: "partner", role: "impostor" },
+        ]));
+
+        // An impostor knows accusations against them are true
+        expect(suspicions).toEqual([{ publicKey: "a", score: 0, evidence: [] }]);
+    });
+});
+
+describe("formatSuspicionTable", () => {
+    it("should render a row per player", () => {
+        expect(formatSuspicionTable([
+            { publicKey: "b", score: 10, evidence: ["round 2: killed x in room 0"] },
+            { publicKey: "a", score: 0, evidence: [] },
+        ])).toBe("| Player | Suspicion | Evidence |\n| --- | --- | --- |\n| b | 10 | round 2: killed x in room 0 |\n| a | 0 | nothing yet |");
+        expect(formatSuspicionTable([])).toBe("");
+    });
+});
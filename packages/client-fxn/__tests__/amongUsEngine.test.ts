@@ -0,0 +1,340 @@
+import {
+    advancePhase,
+    checkWinCondition,
+    createGame,
+    DEFAULT_RULES,
+    getPlayerView,
+    tallyVotes
+} from "../src/amongUsEngine.ts";
+import { GameState, PlayerInput } from "../src/types.ts";
+
+const PLAYERS = ["p1", "p2", "p3", "p4", "p5", "p6"];
+const ROOM_COUNT = DEFAULT_RULES.roomCount;
+
+function impostors(state: GameState): string[] {
+    return Array.from(state.players.values())
+        .filter((p) => p.role.type === "impostor")
+        .map((p) => p.publicKey);
+}
+
+function crew(state: GameState): string[] {
+    return Array.from(state.players.values())
+        .filter((p) => p.role.type === "crewmate")
+        .map((p) => p.publicKey);
+}
+
+/**
+ * Put every player in a fixed room so tests don't depend on the seed
+ */
+function placePlayers(state: GameState, rooms: Record<string, number>): void {
+    Object.entries(rooms).forEach(([publicKey, room]) => {
+        state.players.get(publicKey)!.role.room = room;
+    });
+}
+
+function pass(state: GameState): GameState {
+    return advancePhase(state, []).state;
+}
+
+describe("createGame", () => {
+    it("should assign two impostors and place everyone on the ring", () => {
+        const { state, events } = createGame(PLAYERS, 42);
+
+        expect(impostors(state)).toHaveLength(2);
+        expect(crew(state)).toHaveLength(4);
+        state.players.forEach((p) => {
+            expect(p.role.room).toBeGreaterThanOrEqual(0);
+            expect(p.role.room).toBeLessThan(ROOM_COUNT);
+        });
+        expect(state.phase).toBe("action");
+        expect(state.actionOrder.sort()).toEqual([...PLAYERS].sort());
+        expect(events.map((e) => e.type)).toEqual([
+            "roles_assigned",
+            "round_started",
+            "phase_started",
+        ]);
+    });
+
+    it("should be deterministic for a given seed", () => {
+        const a = createGame(PLAYERS, "match-1");
+        const b = createGame(PLAYERS, "match-1");
+
+        expect(a.state).toEqual(b.state);
+        expect(a.events).toEqual(b.events);
+    });
+
+    it("should reject duplicate players and too few players", () => {
+        expect(() => createGame(["p1", "p1", "p2", "p3"], 1)).toThrow();
+        expect(() => createGame(["p1", "p2"], 1)).toThrow();
+    });
+});
+
+describe("advancePhase", () => {
+    let state: GameState;
+    let killer: string;
+    let partner: string;
+    let victim: string;
+    let bystander: string;
+
+    beforeEach(() => {
+        state = createGame(PLAYERS, 7).state;
+        [killer, partner] = impostors(state);
+        [victim, bystander] = crew(state);
+        const rooms: Record<string, number> = {};
+        PLAYERS.forEach((p, i) => (rooms[p] = i));
+        rooms[victim] = 0;
+        rooms[killer] = 0;
+        rooms[partner] = 3;
+        rooms[bystander] = 5;
+        placePlayers(state, rooms);
+    });
+
+    it("should not mutate the state it is given", () => {
+        const snapshot = (s: GameState) =>
+            JSON.stringify({ ...s, players: Array.from(s.players.values()) });
+        const before = snapshot(state);
+        advancePhase(state, [
+            { publicKey: killer, phase: "action", action: { type: "kill", target: victim } },
+        ]);
+
+        expect(snapshot(state)).toEqual(before);
+    });
+
+    it("should resolve a kill in the same room after movement", () => {
+        state = advancePhase(state, [
+            { publicKey: killer, phase: "action", action: { type: "kill", target: victim } },
+        ]).state;
+        expect(state.phase).toBe("movement");
+        expect(state.players.get(victim)!.isAlive).toBe(true);
+
+        const result = advancePhase(state, []);
+
+        expect(result.state.players.get(victim)!.isAlive).toBe(false);
+        expect(result.events).toContainEqual({ type: "kill", killer, victim, room: 0 });
+        expect(result.state.currentRound).toBe(2);
+        expect(result.state.phase).toBe("action");
+    });
+
+    it("should reject kills across rooms, by crew, and against impostors", () => {
+        const inputs: PlayerInput[] = [
+            { publicKey: killer, phase: "action", action: { type: "kill", target: bystander } },
+            { publicKey: victim, phase: "action", action: { type: "kill", target: killer } },
+            { publicKey: partner, phase: "action", action: { type: "kill", target: killer } },
+        ];
+        const { state: next, events } = advancePhase(state, inputs);
+
+        expect(events.filter((e) => e.type === "input_rejected")).toHaveLength(3);
+        const resolved = pass(next);
+        expect(Array.from(resolved.players.values()).every((p) => p.isAlive)).toBe(true);
+    });
+
+    it("should enforce the kill cooldown", () => {
+        state = createGame(PLAYERS, 7, { ...DEFAULT_RULES, killCooldown: 1 }).state;
+        [killer] = impostors(state);
+        const [first, second] = crew(state);
+        placePlayers(state, { [killer]: 2, [first]: 2, [second]: 2 });
+
+        state = advancePhase(state, [
+            { publicKey: killer, phase: "action", action: { type: "kill", target: first } },
+        ]).state;
+        state = pass(state);
+        expect(state.players.get(first)!.isAlive).toBe(false);
+        expect(getPlayerView(state, killer).canKill).toBe(false);
+
+        const { events } = advancePhase(state, [
+            { publicKey: killer, phase: "action", action: { type: "kill", target: second } },
+        ]);
+        expect(events).toContainEqual(
+            expect.objectContaining({ type: "input_rejected", reason: "Kill is on cooldown" })
+        );
+
+        state = pass(pass(state));
+        expect(getPlayerView(state, killer).canKill).toBe(true);
+    });
+
+    it("should move players around a ring of any size", () => {
+        state = createGame(PLAYERS, 7, { ...DEFAULT_RULES, roomCount: 3 }).state;
+        placePlayers(state, { p1: 2 });
+        state = advancePhase(pass(state), [
+            { publicKey: "p1", phase: "movement", movement: { type: "clockwise" } },
+        ]).state;
+
+        expect(state.players.get("p1")!.role.room).toBe(0);
+    });
+
+    it("should move living players around the ring and leave bodies behind", () => {
+        state = advancePhase(state, [
+            { publicKey: killer, phase: "action", action: { type: "kill", target: victim } },
+        ]).state;
+        state = advancePhase(state, [
+            { publicKey: killer, phase: "movement", movement: { type: "counterclockwise" } },
+            { publicKey: victim, phase: "movement", movement: { type: "clockwise" } },
+            { publicKey: bystander, phase: "movement", movement: { type: "clockwise" } },
+        ]).state;
+
+        expect(state.players.get(killer)!.role.room).toBe(ROOM_COUNT - 1);
+        expect(state.players.get(bystander)!.role.room).toBe(0);
+        expect(state.players.get(victim)!.role.room).toBe(0);
+    });
+
+    it("should open a meeting on the most accused player and eject on a majority", () => {
+        state = advancePhase(state, [
+            { publicKey: victim, phase: "action", action: { type: "accuse", target: killer, accusationText: "sus" } },
+            { publicKey: bystander, phase: "action", action: { type: "accuse", target: killer } },
+            { publicKey: killer, phase: "action", action: { type: "accuse", target: bystander } },
+        ]).state;
+        state = pass(state);
+
+        expect(state.phase).toBe("voting");
+        expect(state.accusedPlayer).toBe(killer);
+        expect(state.accusations).toHaveLength(3);
+        expect(getPlayerView(state, partner).accusations).toHaveLength(3);
+
+        const votes: PlayerInput[] = [victim, bystander, partner].map((publicKey) => ({
+            publicKey,
+            phase: "voting",
+            vote: { target: killer, voteText: "guilty" },
+        }));
+        const { state: next, events } = advancePhase(state, votes);
+
+        expect(next.players.get(killer)!.isAlive).toBe(false);
+        expect(events).toContainEqual({ type: "ejected", publicKey: killer, role: "impostor" });
+        expect(next.voteHistory).toHaveLength(1);
+        expect(next.voteHistory[0].votes).toHaveLength(3);
+        expect(next.accusedPlayer).toBeUndefined();
+        expect(next.phase).toBe("action");
+        expect(next.currentRound).toBe(2);
+    });
+
+    it("should drop accusations from players killed that round", () => {
+        state = advancePhase(state, [
+            { publicKey: killer, phase: "action", action: { type: "kill", target: victim } },
+            { publicKey: victim, phase: "action", action: { type: "accuse", target: killer } },
+        ]).state;
+        state = pass(state);
+
+        expect(state.phase).toBe("action");
+        expect(state.accusedPlayer).toBeUndefined();
+    });
+
+    it("should declare the crew winner once every impostor is gone", () => {
+        state.players.get(partner)!.isAlive = false;
+        state = advancePhase(state, [
+            { publicKey: victim, phase: "action", action: { type: "accuse", target: killer } },
+        ]).state;
+        state = pass(state);
+        const { state: next, events } = advancePhase(state, [
+            { publicKey: victim, phase: "voting", vote: { target: killer, voteText: "" } },
+        ]);
+
+        expect(next.isActive).toBe(false);
+        expect(next.winner).toBe("crew");
+        expect(next.phase).toBe("complete");
+        expect(events[events.length - 1]).toEqual({ type: "game_over", winner: "crew" });
+        expect(advancePhase(next, []).events).toEqual([]);
+    });
+
+    it("should complete one task per crewmate in their room and ignore impostor fakes", () => {
+        state.tasks = [{ id: 0, room: 0 }, { id: 1, room: 0 }, { id: 2, room: 5 }];
+        state = advancePhase(state, [
+            { publicKey: victim, phase: "action", action: { type: "task" } },
+            { publicKey: killer, phase: "action", action: { type: "task" } },
+        ]).state;
+        const { state: next, events } = advancePhase(state, []);
+
+        expect(events.filter((e) => e.type === "task_completed")).toEqual([
+            { type: "task_completed", publicKey: victim, taskId: 0, room: 0 },
+        ]);
+        expect(next.tasks.filter((t) => t.completedBy)).toHaveLength(1);
+        expect(getPlayerView(next, bystander).tasks).toEqual({ total: 3, completed: 1, rooms: [0, 5] });
+    });
+
+    it("should not complete the task of a crewmate killed that round", () => {
+        state.tasks = [{ id: 0, room: 0 }];
+        state = advancePhase(state, [
+            { publicKey: killer, phase: "action", action: { type: "kill", target: victim } },
+            { publicKey: victim, phase: "action", action: { type: "task" } },
+        ]).state;
+
+        expect(pass(state).tasks[0].completedBy).toBeUndefined();
+    });
+
+    it("should declare the crew winner once every task is done", () => {
+        state.tasks = [{ id: 0, room: 5, completedBy: victim }, { id: 1, room: 5 }];
+        state = advancePhase(state, [
+            { publicKey: bystander, phase: "action", action: { type: "task" } },
+        ]).state;
+        state = pass(state);
+
+        expect(state.winner).toBe("crew");
+        expect(checkWinCondition({ ...state, tasks: [] })).toBeUndefined();
+    });
+
+    it("should call a meeting when a body in the room is reported", () => {
+        state = advancePhase(state, [
+            { publicKey: killer, phase: "action", action: { type: "kill", target: victim } },
+        ]).state;
+        state = pass(state);
+        placePlayers(state, { [bystander]: 0 });
+
+        expect(getPlayerView(state, bystander).canReport).toBe(true);
+        expect(getPlayerView(state, bystander).reportableBodies).toEqual([victim]);
+        expect(getPlayerView(state, partner).canReport).toBe(false);
+        const { events: rejected } = advancePhase(state, [
+            { publicKey: partner, phase: "action", action: { type: "report" } },
+        ]);
+        expect(rejected).toContainEqual(expect.objectContaining({ type: "input_rejected", publicKey: partner }));
+
+        state = advancePhase(state, [
+            { publicKey: bystander, phase: "action", action: { type: "report" } },
+        ]).state;
+        const { state: meeting, events } = advancePhase(state, []);
+
+        expect(meeting.phase).toBe("voting");
+        expect(meeting.accusedPlayer).toBeUndefined();
+        expect(meeting.reportedBody).toBe(victim);
+        expect(events).toContainEqual({
+            type: "meeting_called",
+            accusedPlayer: undefined,
+            reportedBody: victim,
+            reporter: bystander,
+            accusations: [],
+        });
+
+        // Any living player can be voted out, and the body can't be reported twice
+        const { state: next } = advancePhase(meeting, [bystander, partner].map((publicKey): PlayerInput => ({
+            publicKey,
+            phase: "voting",
+            vote: { target: killer, voteText: "found them by the body" },
+        })));
+        expect(next.players.get(killer)!.isAlive).toBe(false);
+        expect(next.voteHistory[0]).toMatchObject({ reportedBody: victim, ejected: killer });
+        expect(getPlayerView(next, bystander).canReport).toBe(false);
+    });
+
+    it("should declare the impostors winner once the crew is gone", () => {
+        crew(state)
+            .filter((p) => p !== victim)
+            .forEach((p) => (state.players.get(p)!.isAlive = false));
+        state = advancePhase(state, [
+            { publicKey: killer, phase: "action", action: { type: "kill", target: victim } },
+        ]).state;
+        state = pass(state);
+
+        expect(state.winner).toBe("impostors");
+        expect(checkWinCondition(state)).toBe("impostors");
+    });
+});
+
+describe("tallyVotes", () => {
+    it("should eject the player with the most votes", () => {
+        expect(tallyVotes(new Map([["a", "x"], ["b", "x"], ["c", "skip"]]))).toBe("x");
+    });
+
+    it("should eject nobody on a tie or a skip majority", () => {
+        expect(tallyVotes(new Map([["a", "x"], ["b", "skip"]]))).toBeNull();
+        expect(tallyVotes(new Map([["a", "x"], ["b", "y"]]))).toBeNull();
+        expect(tallyVotes(new Map([["a", "skip"]]))).toBeNull();
+        expect(tallyVotes(new Map())).toBeNull();
+    });
+});
@@ -0,0 +1,70 @@
+import { createAfkState } from "../src/afk.ts";
+import { createGame } from "../src/amongUsEngine.ts";
+import { AmongUsManager } from "../src/amongUsManager.ts";
+import { amongUsModule } from "../src/amongUsModule.ts";
+import { serializeGameState } from "../src/gameCheckpoint.ts";
+import { DEFAULT_MATCH_CONFIG } from "../src/matchConfig.ts";
+
+describe("AmongUsManager", () => {
+    it("should drop the checkpoint of a match that broke before reopening the lobby", async () => {
+        const unused: any = {};
+        const checkpoints: any = {
+            load: async () => {
+                throw new Error("corrupt checkpoint");
+            },
+            clear: jest.fn(async () => {}),
+        };
+        const tournaments: any = { latest: async () => null };
+        const config = { ...DEFAULT_MATCH_CONFIG, lobbyPollInterval: 60000 };
+
+        const manager = new AmongUsManager(amongUsModule, unused, config, unused, checkpoints, unused, unused, tournaments);
+        try {
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            expect(checkpoints.clear).toHaveBeenCalledTimes(1);
+        } finally {
+            manager.stop();
+        }
+    });
+
+    it("should only ask living players for a move and send everyone else the state", async () => {
+        const { state } = createGame(["alive", "dead", "bot-3", "bot-4"], 7);
+        state.players.get("dead")!.isAlive = false;
+        const checkpoints: any = {
+            load: async () => ({
+                matchId: "m1",
+                seed: 7,
+                startedAt: 0,
+                phaseDeadline: Date.now() + 60000,
+                state: serializeGameState(state),
+                matchEvents: [],
+                observations: {},
+                invalidDecisions: {},
+                afk: createAfkState(),
+            }),
+            save: async () => {},
+        };
+        const delivered = { status: "delivered" };
+        const fxnClient: any = {
+            getSubscribers: async () =>
+                ["alive", "dead", "watcher"].map((publicKey) => ({ subscriber: publicKey, status: "active" })),
+            broadcastToSubscribers: async () => [],
+            sendGameUpdate: jest.fn(async () => delivered),
+            sendGameState: jest.fn(async () => delivered),
+            requestDecision: jest.fn(),
+        };
+        const replays: any = { append: () => {} };
+        const tournaments: any = { latest: async () => null };
+        const config = { ...DEFAULT_MATCH_CONFIG, moveSubmission: "async" as const, movesUrl: "https://host.test/moves" };
+
+        const manager = new AmongUsManager(amongUsModule, fxnClient, config, {} as any, checkpoints, {} as any, replays, tournaments);
+        try {
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            const recipients = (mock: jest.Mock) => mock.mock.calls.map(([subscriber]) => subscriber.subscriber);
+            expect(recipients(fxnClient.sendGameUpdate)).toEqual(["alive"]);
+            expect(recipients(fxnClient.sendGameState)).toEqual(["dead", "watcher"]);
+            expect(fxnClient.requestDecision).not.toHaveBeenCalled();
+        } finally {
+            manager.stop();
+        }
+    });
+});
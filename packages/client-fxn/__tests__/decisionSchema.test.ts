@@ -0,0 +1,38 @@
+import { createRepairPrompt, DecisionSchema, validateDecision } from "../src/decisionSchema.ts";
+
+const VOTE: DecisionSchema = {
+    type: "object",
+    required: ["target", "voteText"],
+    properties: {
+        target: { type: ["string", "null"], enum: ["p2", null] },
+        voteText: { type: "string" },
+    },
+};
+
+describe("validateDecision", () => {
+    it("should accept decisions matching the schema", () => {
+        expect(validateDecision(VOTE, { target: "p2", voteText: "sus" })).toEqual([]);
+        expect(validateDecision(VOTE, { target: null, voteText: "not sure" })).toEqual([]);
+    });
+
+    it("should list every problem", () => {
+        expect(validateDecision(VOTE, { target: "p3", reason: "sus" })).toEqual([
+            "decision.voteText is required",
+            'decision.target must be one of "p2", null',
+            "decision.reason is not allowed",
+        ]);
+        expect(validateDecision(VOTE, { target: 2, voteText: "sus" })).toEqual([
+            "decision.target must be string or null, got number",
+        ]);
+        expect(validateDecision(VOTE, null)).toEqual(["decision must be object, got null"]);
+    });
+});
+
+describe("createRepairPrompt", () => {
+    it("should show the model its reply and what is wrong with it", () => {
+        const prompt = createRepairPrompt("Vote!", { target: "p3" }, ["decision.voteText is required"]);
+        expect(prompt).toBe(
+            'Vote!\n\nYour previous reply was {"target":"p3"}, which is invalid:\n- decision.voteText is required\n\nAnswer again with a corrected JSON object.'
+        );
+    });
+});
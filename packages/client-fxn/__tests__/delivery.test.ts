@@ -0,0 +1,114 @@
+import { DeliveryService, FetchFn } from "../src/delivery.ts";
+
+const message = { version: 1, payload: { type: "announcement" }, signature: "sig", publicKey: "host" };
+
+function reply(status: number, body: any = {}): Awaited<ReturnType<FetchFn>> {
+    return { ok: status >= 200 && status < 300, status, text: async () => JSON.stringify(body) };
+}
+
+function hang(init?: RequestInit): Promise<never> {
+    return new Promise((_, reject) => init!.signal!.addEventListener("abort", () => reject(init!.signal!.reason)));
+}
+
+const options = { concurrency: 2, decisionConcurrency: 2, timeout: 1000, retries: 2, backoff: 1 };
+
+describe("DeliveryService", () => {
+    it("should deliver with bounded concurrency and return receipts in order", async () => {
+        let inFlight = 0;
+        let mostInFlight = 0;
+        const fetchFn = jest.fn(async (url: string, init?: RequestInit) => {
+            inFlight++;
+            mostInFlight = Math.max(mostInFlight, inFlight);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            inFlight--;
+            return reply(200, { from: url });
+        });
+        const service = new DeliveryService(options, fetchFn);
+
+        const receipts = await service.deliver(["a", "b", "c", "d", "e"].map((publicKey) => ({
+            publicKey, recipient: `http://${publicKey}`, message,
+        })));
+
+        expect(mostInFlight).toBe(2);
+        expect(receipts.map((r) => [r.publicKey, r.status, r.body.from])).toEqual(
+            ["a", "b", "c", "d", "e"].map((p) => [p, "delivered", `http://${p}`])
+        );
+        expect(JSON.parse(fetchFn.mock.calls[0][1]!.body as string)).toEqual(message);
+    });
+
+    it("should not hold up broadcasts behind decision requests", async () => {
+        const fetchFn = jest.fn((url: string, init?: RequestInit) =>
+            url.startsWith("http://player") ? hang(init) : Promise.resolve(reply(200)));
+        const service = new DeliveryService({ ...options, timeout: 10 }, fetchFn);
+
+        const deadline = Date.now() + 200;
+        const decisions = service.deliver(["player-1", "player-2", "player-3"].map((publicKey) => ({
+            publicKey, recipient: `http://${publicKey}`, message, deadline, decision: true,
+        })));
+        const [announcement] = await service.deliver([{ publicKey: "a", recipient: "http://a", message }]);
+        expect(announcement.status).toBe("delivered");
+        expect(Date.now()).toBeLessThan(deadline);
+
+        // Decisions wait for the player past the per-attempt timeout, until the deadline
+        const receipts = await decisions;
+        expect(receipts.map((r) => r.status)).toEqual(["failed", "failed", "failed"]);
+        expect(Date.now()).toBeGreaterThanOrEqual(deadline - 5);
+    });
+
+    it("should retry network errors and busy subscribers, but not other failures", async () => {
+        const fetchFn = jest.fn()
+            .mockRejectedValueOnce(new Error("ECONNREFUSED"))
+            .mockResolvedValueOnce(reply(503))
+            .mockResolvedValueOnce(reply(200, { received: true }))
+            .mockResolvedValueOnce(reply(409));
+        const service = new DeliveryService(options, fetchFn);
+
+        const [retried] = await service.deliver([{ publicKey: "a", recipient: "http://a", message }]);
+        expect(retried).toMatchObject({ status: "delivered", attempts: 3, body: { received: true } });
+
+        const [refused] = await service.deliver([{ publicKey: "a", recipient: "http://a", message }]);
+        expect(refused).toMatchObject({ status: "failed", attempts: 1, httpStatus: 409 });
+    });
+
+    it("should give up after the retries and track consecutive failures", async () => {
+        const service = new DeliveryService(options, jest.fn().mockRejectedValue(new Error("ECONNREFUSED")));
+
+        const [receipt] = await service.deliver([{ publicKey: "a", recipient: "http://a", message }]);
+        await service.deliver([
+            { publicKey: "a", recipient: "http://a", message },
+            { publicKey: "b", message },
+        ]);
+
+        expect(receipt).toMatchObject({ status: "failed", attempts: 3, error: "ECONNREFUSED" });
+        expect(service.getSubscriberHealth("a")).toMatchObject({ delivered: 0, failed: 2, consecutiveFailures: 2 });
+        expect(service.getSubscriberHealth("b")).toMatchObject({ failed: 1, lastError: "Subscriber has no recipient" });
+    });
+
+    it("should cut attempts off at the message's deadline", async () => {
+        const fetchFn = jest.fn((url: string, init?: RequestInit) => hang(init));
+        const service = new DeliveryService({ ...options, timeout: 60 * 1000 }, fetchFn);
+
+        const startedAt = Date.now();
+        const [receipt] = await service.deliver([
+            { publicKey: "a", recipient: "http://a", message, deadline: Date.now() + 50 },
+        ]);
+
+        expect(receipt.status).toBe("failed");
+        expect(receipt.error).toMatch(/No answer within \d+ms|expired/);
+        expect(Date.now() - startedAt).toBeLessThan(1000);
+    });
+
+    it("should reset consecutive failures once a delivery gets through", async () => {
+        const fetchFn = jest.fn()
+            .mockResolvedValueOnce(reply(400))
+            .mockResolvedValueOnce(reply(200));
+        const service = new DeliveryService(options, fetchFn);
+
+        await service.deliver([{ publicKey: "a", recipient: "http://a", message }]);
+        await service.deliver([{ publicKey: "a", recipient: "http://a", message }]);
+
+        expect(service.getHealth()).toEqual([
+            expect.objectContaining({ publicKey: "a", delivered: 1, failed: 1, consecutiveFailures: 0 }),
+        ]);
+    });
+});
@@ -0,0 +1,72 @@
+import { createAfkState } from "../src/afk.ts";
+import { advancePhase, createGame } from "../src/amongUsEngine.ts";
+import {
+    deserializeGameState,
+    GameCheckpointStore,
+    serializeGameState,
+} from "../src/gameCheckpoint.ts";
+
+/**
+ * In-memory stand-in for the runtime's database adapter
+ */
+function createRuntime(): any {
+    const memories = new Map<string, any>();
+    return {
+        agentId: "00000000-0000-0000-0000-000000000001",
+        ensureRoomExists: async () => {},
+        databaseAdapter: {
+            createMemory: async (memory: any) => {
+                if (memories.has(memory.id)) throw new Error("duplicate id");
+                memories.set(memory.id, JSON.parse(JSON.stringify(memory)));
+            },
+            removeMemory: async (id: string) => {
+                memories.delete(id);
+            },
+            getMemoryById: async (id: string) => memories.get(id) ?? null,
+        },
+    };
+}
+
+describe("serializeGameState", () => {
+    it("should survive a JSON round trip", () => {
+        let { state } = createGame(["a", "b", "c", "d"], 5);
+        state = advancePhase(state, []).state;
+        state.votingResults = new Map([["a", "b"]]);
+
+        const restored = deserializeGameState(
+            JSON.parse(JSON.stringify(serializeGameState(state)))
+        );
+
+        expect(Array.from(restored.players.entries())).toEqual(Array.from(state.players.entries()));
+        expect(Array.from(restored.votingResults!.entries())).toEqual([["a", "b"]]);
+        expect(restored.phase).toBe(state.phase);
+        expect(restored.rngState).toBe(state.rngState);
+    });
+});
+
+describe("GameCheckpointStore", () => {
+    it("should save, replace, load and clear the checkpoint", async () => {
+        const store = new GameCheckpointStore(createRuntime());
+        const { state } = createGame(["a", "b", "c", "d"], 5);
+        const checkpoint = {
+            matchId: "m1",
+            seed: 5,
+            startedAt: 1,
+            phaseDeadline: 2,
+            state: serializeGameState(state),
+            matchEvents: [],
+            observations: {},
+            invalidDecisions: {},
+            afk: createAfkState(),
+        };
+
+        expect(await store.load()).toBeNull();
+
+        await store.save(checkpoint);
+        await store.save({ ...checkpoint, phaseDeadline: 3 });
+        expect((await store.load())!.phaseDeadline).toBe(3);
+
+        await store.clear();
+        expect(await store.load()).toBeNull();
+    });
+});
@@ -0,0 +1,152 @@
+import { createGame } from "../src/amongUsEngine.ts";
+import { amongUsModule } from "../src/amongUsModule.ts";
+import { validateDecision } from "../src/decisionSchema.ts";
+import { assertGameModule, loadGameModule } from "../src/gameRegistry.ts";
+import { wordAileModule } from "../src/wordAileModule.ts";
+
+const PLAYERS = ["p1", "p2", "p3", "p4", "p5", "p6"];
+
+describe("loadGameModule", () => {
+    it("should load the built-in games by name", async () => {
+        expect(await loadGameModule("amongus")).toBe(amongUsModule);
+        expect(await loadGameModule("WordAIle")).toBe(wordAileModule);
+    });
+
+    it("should reject unknown games", async () => {
+        await expect(loadGameModule("no-such-game-package")).rejects.toThrow('Unknown game "no-such-game-package"');
+    });
+
+    it("should reject modules missing part of the contract", () => {
+        expect(() => assertGameModule({ name: "chess", phases: [] }, "chess")).toThrow(
+            "chess is not a game module, missing createHost, getPlayerView, parseInput, createPrompt, parseResponse"
+        );
+        expect(() => assertGameModule(amongUsModule, "amongus")).not.toThrow();
+    });
+});
+
+describe("amongUsModule", () => {
+    const { state } = createGame(PLAYERS, 7);
+    const match = { state, observations: {} };
+    const [impostor, crewmate] = ["impostor", "crewmate"].map(
+        (type) => Array.from(state.players.values()).find((p) => p.role.type === type)!.publicKey
+    );
+
+    it("should validate responses against the engine rules", () => {
+        expect(amongUsModule.parseInput(match, crewmate, { type: "pass" })).toEqual({
+            input: { publicKey: crewmate, phase: "action", action: { type: "pass" } },
+        });
+        expect(amongUsModule.parseInput(match, crewmate, { type: "kill", target: impostor })).toEqual({
+            error: "Only impostors can kill",
+        });
+        expect(amongUsModule.parseInput(match, crewmate, { target: null })).toEqual({
+            error: "No action decision in the response",
+        });
+    });
+
+    it("should give bots valid moves for their own view", () => {
+        const view = amongUsModule.getPlayerView(match, impostor);
+        expect(view).toMatchObject({ game: "amongus", phase: "action", yourPublicKey: impostor });
+        expect(amongUsModule.parseInput(match, impostor, amongUsModule.getBotResponse!(view))).toHaveProperty("input");
+    });
+
+    it("should turn model replies into responses", () => {
+        const view = amongUsModule.getPlayerView(match, crewmate);
+        expect(amongUsModule.createPrompt(view)).toContain("Choose your action");
+        expect(amongUsModule.parseResponse("pass, nothing to do", view)).toEqual({ type: "pass" });
+        expect(amongUsModule.parseResponse(`accuse ${impostor} | lurking`, view)).toEqual({
+            type: "accuse",
+            target: impostor,
+            accusationText: "lurking",
+        });
+        expect(amongUsModule.parseResponse(`kill ${crewmate}`, view)).toEqual({ type: "pass" });
+    });
+
+    it("should describe structured decisions with the options the player has", () => {
+        const view = amongUsModule.getPlayerView(match, crewmate);
+        const schema = amongUsModule.getDecisionSchema!(view);
+
+        expect(schema.properties.type.enum).not.toContain("kill");
+        expect(schema.properties.target.enum).not.toContain(crewmate);
+        expect(validateDecision(schema, { type: "accuse", target: impostor, accusationText: "lurking" })).toEqual([]);
+        expect(validateDecision(schema, amongUsModule.getBotResponse!(view))).toEqual([]);
+
+        const prompt = amongUsModule.createDecisionPrompt!(view, schema);
+        expect(prompt).toContain("Respond with only a JSON object");
+        expect(prompt).not.toContain("{action} {target} | {reason}");
+    });
+
+    it("should let the decision name the body to report", () => {
+        const { state: withBody } = createGame(PLAYERS, 7);
+        const [reporter, victim] = Array.from(withBody.players.values()).filter((p) => p.role.type === "crewmate");
+        victim.isAlive = false;
+        victim.role.room = reporter.role.room;
+        const bodyMatch = { state: withBody, observations: {} };
+        const view = amongUsModule.getPlayerView(bodyMatch, reporter.publicKey);
+        const schema = amongUsModule.getDecisionSchema!(view);
+        const decision = { type: "report", target: victim.publicKey };
+
+        expect(validateDecision(schema, decision)).toEqual([]);
+        expect(amongUsModule.parseInput(bodyMatch, reporter.publicKey, decision)).toHaveProperty("input");
+    });
+
+    it("should let the vote go to any living player, not only the accused", () => {
+        const { state: meeting } = createGame(PLAYERS, 7);
+        meeting.phase = "voting";
+        meeting.accusedPlayer = impostor;
+        const meetingMatch = { state: meeting, observations: {} };
+        const view = amongUsModule.getPlayerView(meetingMatch, crewmate);
+        const schema = amongUsModule.getDecisionSchema!(view);
+        const other = PLAYERS.find((publicKey) => publicKey !== impostor && publicKey !== crewmate)!;
+
+        [other, null].forEach((target) => {
+            const decision = { target, voteText: "not convinced" };
+            expect(validateDecision(schema, decision)).toEqual([]);
+            expect(amongUsModule.parseInput(meetingMatch, crewmate, decision)).toHaveProperty("input");
+        });
+        expect(amongUsModule.createDecisionPrompt!(view, schema)).toContain("Vote to eject another living player");
+    });
+
+    it("should remember observations and put the evidence in the prompt", () => {
+        const view = amongUsModule.getPlayerView(match, crewmate);
+        const memories = amongUsModule.getMemoryEvents!(view);
+        expect(memories.map((m) => m.event)).toEqual(view.observations);
+        expect(memories.every((m) => m.text.startsWith("Round "))).toBe(true);
+
+        const evidence = amongUsModule.summarizeMemory!(memories.map((m) => m.event), view);
+        expect(evidence).toContain("| Player | Suspicion | Evidence |");
+        expect(amongUsModule.createPrompt(view, evidence)).toContain(evidence);
+        expect(amongUsModule.createPrompt(view)).not.toContain("Suspicion");
+    });
+});
+
+describe("wordAileModule", () => {
+    const state = {
+        round: 1,
+        turn: 2,
+        maxGuesses: 6,
+        wordsToWin: 3,
+        boards: new Map([["done", { guesses: [], solved: true }]]),
+        scores: new Map([["done", 1]]),
+    };
+
+    it("should send each player their own board", () => {
+        expect(wordAileModule.getPlayerView(state, "done")).toMatchObject({
+            game: "wordaile",
+            phase: "guess",
+            solved: true,
+            wordsGuessed: 1,
+            guessesLeft: 6,
+        });
+    });
+
+    it("should accept dictionary words from players still guessing", () => {
+        expect(wordAileModule.parseInput(state, "new", { guess: " Crane " })).toEqual({ input: "crane" });
+        expect(wordAileModule.parseInput(state, "new", { guess: "zzzzz" })).toHaveProperty("error");
+        expect(wordAileModule.parseInput(state, "done", { guess: "crane" })).toEqual({ error: "Word already solved" });
+    });
+
+    it("should pick the guess out of the model's reply", () => {
+        const view = wordAileModule.getPlayerView(state, "new");
+        expect(wordAileModule.parseResponse("Crane.", view)).toEqual({ guess: "crane" });
+    });
+});
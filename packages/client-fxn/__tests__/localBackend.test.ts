@@ -0,0 +1,79 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { LocalSubscriptionRegistry, SimulatedRewardLedger } from "../src/localBackend.ts";
+
+describe("LocalSubscriptionRegistry", () => {
+    let dataDir: string;
+    let registry: LocalSubscriptionRegistry;
+
+    beforeEach(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "fxn-registry-"));
+        registry = new LocalSubscriptionRegistry(path.join(dataDir, "subscribers.json"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it("should return subscribers in the FXN SDK shape", async () => {
+        await registry.upsert({ publicKey: "p1", recipient: "http://localhost:3001", status: "active" });
+        await registry.upsert({ publicKey: "p2", recipient: "http://localhost:3002", status: "inactive" });
+
+        const subscribers = await registry.getSubscribers();
+        expect(subscribers).toEqual([
+            { subscriber: "p1", subscription: { recipient: "http://localhost:3001" }, status: "active" },
+            { subscriber: "p2", subscription: { recipient: "http://localhost:3002" }, status: "inactive" },
+        ]);
+        expect(subscribers[0].subscriber.toString()).toBe("p1");
+    });
+
+    it("should update and remove subscribers, including concurrent edits", async () => {
+        await Promise.all(
+            ["p1", "p2", "p3"].map((publicKey, i) =>
+                registry.upsert({ publicKey, recipient: `http://localhost:300${i}`, status: "active" })
+            )
+        );
+        await registry.upsert({ publicKey: "p2", recipient: "http://localhost:4000", status: "inactive" });
+
+        expect(await registry.remove("p1")).toBe(true);
+        expect(await registry.remove("p1")).toBe(false);
+        expect(await registry.list()).toEqual([
+            { publicKey: "p3", recipient: "http://localhost:3002", status: "active" },
+            { publicKey: "p2", recipient: "http://localhost:4000", status: "inactive" },
+        ]);
+    });
+
+    it("should pick up edits made to the file by hand", async () => {
+        fs.writeFileSync(
+            path.join(dataDir, "subscribers.json"),
+            JSON.stringify({ subscribers: [{ publicKey: "p9", recipient: "http://localhost:3009", status: "active" }] })
+        );
+        expect((await registry.list()).map((s) => s.publicKey)).toEqual(["p9"]);
+    });
+
+    it("should reject invalid subscribers", async () => {
+        await expect(registry.upsert({ publicKey: "p1", recipient: "not a url", status: "paused" as any })).rejects.toThrow(
+            "Invalid subscriber: recipient must be a URL; status must be one of active, inactive"
+        );
+        expect(await registry.list()).toEqual([]);
+    });
+});
+
+describe("SimulatedRewardLedger", () => {
+    it("should record transfers and total them per player", async () => {
+        const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "fxn-transfers-"));
+        try {
+            const ledger = new SimulatedRewardLedger(dataDir);
+            const result = await ledger.transfer("p1", 10);
+            await ledger.transfer("p2", 5);
+            await ledger.transfer("p1", 2.5);
+
+            expect(result.status).toBe("success");
+            expect(result.signature).toMatch(/^simulated-/);
+            expect(await ledger.getBalances()).toEqual({ p1: 12.5, p2: 5 });
+        } finally {
+            fs.rmSync(dataDir, { recursive: true, force: true });
+        }
+    });
+});
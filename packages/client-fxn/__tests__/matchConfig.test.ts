@@ -0,0 +1,102 @@
+import {
+    DEFAULT_MATCH_CONFIG,
+    getBotStrategy,
+    getImpostorCount,
+    loadMatchConfig,
+    validateMatchConfig,
+} from "../src/matchConfig.ts";
+
+function runtimeWithSettings(settings: Record<string, any>): any {
+    return { getSetting: (key: string) => settings[key] ?? null };
+}
+
+describe("loadMatchConfig", () => {
+    it("should use the defaults when nothing is configured", () => {
+        expect(loadMatchConfig(runtimeWithSettings({}))).toEqual(DEFAULT_MATCH_CONFIG);
+    });
+
+    it("should merge FXN_MATCH_CONFIG and individual settings", () => {
+        const config = loadMatchConfig(
+            runtimeWithSettings({
+                FXN_MATCH_CONFIG: JSON.stringify({ minPlayers: 4, roomCount: 4 }),
+                FXN_ROOM_COUNT: "8",
+                FXN_FILL_WITH_BOTS: "false",
+                FXN_MIN_SUBSCRIBERS: "4",
+                FXN_VOTING_DURATION_MS: "1000",
+            })
+        );
+
+        expect(config.minPlayers).toBe(4);
+        expect(config.roomCount).toBe(8);
+        expect(config.fillWithBots).toBe(false);
+        expect(config.votingDuration).toBe(1000);
+    });
+
+    it("should accept an object from character settings", () => {
+        const config = loadMatchConfig(
+            runtimeWithSettings({ FXN_MATCH_CONFIG: { maxPlayers: 20 } })
+        );
+
+        expect(config.maxPlayers).toBe(20);
+    });
+
+    it("should fail fast on an invalid config", () => {
+        expect(() =>
+            loadMatchConfig(runtimeWithSettings({ FXN_MIN_PLAYERS: "abc" }))
+        ).toThrow("Invalid match config");
+        expect(() =>
+            loadMatchConfig(runtimeWithSettings({ FXN_MATCH_CONFIG: "{" }))
+        ).toThrow("Invalid FXN_MATCH_CONFIG");
+    });
+});
+
+describe("validateMatchConfig", () => {
+    it("should reject impossible lobbies", () => {
+        expect(() =>
+            validateMatchConfig({ ...DEFAULT_MATCH_CONFIG, maxPlayers: 2 })
+        ).toThrow("maxPlayers");
+        expect(() =>
+            validateMatchConfig({ ...DEFAULT_MATCH_CONFIG, impostorRatio: 0.5 })
+        ).toThrow("impostorRatio");
+        expect(() =>
+            validateMatchConfig({ ...DEFAULT_MATCH_CONFIG, actionDuration: 0 })
+        ).toThrow("actionDuration");
+        expect(() =>
+            validateMatchConfig({ ...DEFAULT_MATCH_CONFIG, fillWithBots: false })
+        ).toThrow("minSubscribers");
+        expect(() =>
+            validateMatchConfig({ ...DEFAULT_MATCH_CONFIG, afkPolicy: "kick" as any })
+        ).toThrow("afkPolicy must be bot or disconnect");
+        expect(() =>
+            validateMatchConfig({ ...DEFAULT_MATCH_CONFIG, afkAfterMissedPhases: -1 })
+        ).toThrow("afkAfterMissedPhases");
+    });
+
+    it("should need a moves URL for async move submission", () => {
+        expect(() =>
+            validateMatchConfig({ ...DEFAULT_MATCH_CONFIG, moveSubmission: "async" })
+        ).toThrow("movesUrl must be a URL when moveSubmission is async");
+        expect(() =>
+            validateMatchConfig({ ...DEFAULT_MATCH_CONFIG, moveSubmission: "async", movesUrl: "https://host.example/moves" })
+        ).not.toThrow();
+    });
+});
+
+describe("getBotStrategy", () => {
+    it("should give each bot seat its strategy and the last one to the rest", () => {
+        const config = loadMatchConfig(runtimeWithSettings({ FXN_BOT_STRATEGIES: "heuristic, random" }));
+
+        expect([0, 1, 2].map((seat) => getBotStrategy(config, seat))).toEqual(["heuristic", "random", "random"]);
+        expect(() =>
+            validateMatchConfig({ ...DEFAULT_MATCH_CONFIG, botStrategies: ["heuristic", "genius"] })
+        ).toThrow("botStrategies must list strategies out of heuristic, random");
+    });
+});
+
+describe("getImpostorCount", () => {
+    it("should scale with the lobby and keep at least one impostor", () => {
+        expect(getImpostorCount(DEFAULT_MATCH_CONFIG, 6)).toBe(2);
+        expect(getImpostorCount(DEFAULT_MATCH_CONFIG, 12)).toBe(4);
+        expect(getImpostorCount(DEFAULT_MATCH_CONFIG, 3)).toBe(1);
+    });
+});
@@ -0,0 +1,83 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { advancePhase, createGame } from "../src/amongUsEngine.ts";
+import { AmongUsManager } from "../src/amongUsManager.ts";
+import { amongUsModule } from "../src/amongUsModule.ts";
+import { DEFAULT_MATCH_CONFIG } from "../src/matchConfig.ts";
+import { buildMatchRecord, MatchHistory } from "../src/matchHistory.ts";
+import { GameEvent } from "../src/types.ts";
+
+describe("MatchHistory", () => {
+    let dataDir: string;
+
+    beforeEach(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "fxn-history-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it("should return an empty list before any match is saved", async () => {
+        expect(await new MatchHistory(dataDir).list()).toEqual([]);
+    });
+
+    it("should list saved matches newest first", async () => {
+        const history = new MatchHistory(dataDir);
+        const { state } = createGame(["a", "b", "c", "bot-4"], 1);
+
+        await history.save(buildMatchRecord("m1", 1, 0, state, []));
+        await history.save(buildMatchRecord("m2", 2, 0, state, []));
+
+        const records = await history.list();
+        expect(records.map((r) => r.matchId)).toEqual(["m2", "m1"]);
+        expect((await history.list(1)).map((r) => r.matchId)).toEqual(["m2"]);
+    });
+
+    it("should list replays newest first", async () => {
+        const history = new MatchHistory(dataDir);
+        const { state } = createGame(["a", "b", "c", "bot-4"], 1);
+        await history.save(buildMatchRecord("m1", 1, 0, state, []));
+        await history.save(buildMatchRecord("m2", 2, 0, state, []));
+
+        const unused: any = {};
+        const manager = new AmongUsManager(
+            amongUsModule, unused, DEFAULT_MATCH_CONFIG, history, unused, unused, unused, unused
+        );
+        manager.stop();
+        expect((await manager.listReplays()).map((r) => r.matchId)).toEqual(["m2", "m1"]);
+    });
+});
+
+describe("buildMatchRecord", () => {
+    it("should capture participants, kills and the outcome", () => {
+        let { state, events } = createGame(["a", "b", "c", "bot-4"], 3);
+        const impostor = Array.from(state.players.values()).find(
+            (p) => p.role.type === "impostor"
+        )!;
+        const victim = Array.from(state.players.values()).find(
+            (p) => p.role.type === "crewmate"
+        )!;
+        victim.role.room = impostor.role.room;
+
+        const matchEvents: Array<GameEvent & { round: number }> = events.map((e) => ({ ...e, round: 1 }));
+        for (const inputs of [
+            [{ publicKey: impostor.publicKey, phase: "action" as const, action: { type: "kill" as const, target: victim.publicKey } }],
+            [],
+        ]) {
+            ({ state, events } = advancePhase(state, inputs));
+            matchEvents.push(...events.map((e) => ({ ...e, round: 1 })));
+        }
+
+        const record = buildMatchRecord("m1", 3, 100, state, matchEvents);
+
+        expect(record.participants).toHaveLength(4);
+        expect(record.participants.find((p) => p.publicKey === "bot-4")!.isBot).toBe(true);
+        expect(record.participants.find((p) => p.publicKey === victim.publicKey)!.survived).toBe(false);
+        expect(record.kills).toEqual([
+            { round: 1, killer: impostor.publicKey, victim: victim.publicKey },
+        ]);
+        expect(record.winner).toBe(state.winner);
+    });
+});
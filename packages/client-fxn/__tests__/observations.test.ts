@@ -0,0 +1,111 @@
+import { advancePhase, createGame, getPlayerView } from "../src/amongUsEngine.ts";
+import { observeEvents } from "../src/observations.ts";
+import { GameState, ObservationLogs, PlayerInput } from "../src/types.ts";
+
+const PLAYERS = ["p1", "p2", "p3", "p4", "p5", "p6"];
+
+describe("observeEvents", () => {
+    let state: GameState;
+    let logs: ObservationLogs;
+    let killer: string;
+    let partner: string;
+    let victim: string;
+    let witness: string;
+    let bystander: string;
+    let wanderer: string;
+
+    /**
+     * Advance one phase and feed its events to the observation logs
+     */
+    function advance(inputs: PlayerInput[] = []): void {
+        const result = advancePhase(state, inputs);
+        logs = observeEvents(logs, state, result.state, result.events);
+        state = result.state;
+    }
+
+    beforeEach(() => {
+        const game = createGame(PLAYERS, 7);
+        state = game.state;
+        const players = Array.from(state.players.values());
+        [killer, partner] = players.filter((p) => p.role.type === "impostor").map((p) => p.publicKey);
+        [victim, witness, bystander, wanderer] = players.filter((p) => p.role.type === "crewmate").map((p) => p.publicKey);
+
+        const rooms: Record<string, number> = {
+            [killer]: 0, [victim]: 0, [witness]: 0, [partner]: 3, [bystander]: 3, [wanderer]: 1
+        };
+        Object.entries(rooms).forEach(([publicKey, room]) => (state.players.get(publicKey)!.role.room = room));
+        logs = observeEvents({}, undefined, state, game.events);
+    });
+
+    it("should only show a kill to players in the room", () => {
+        advance([{ publicKey: killer, phase: "action", action: { type: "kill", target: victim } }]);
+        advance([{ publicKey: witness, phase: "movement", movement: { type: "clockwise" } }]);
+
+        const sawKill = (publicKey: string) =>
+            logs[publicKey].some((o) => o.type === "witnessed_kill" && o.killer === killer && o.victim === victim);
+        expect(sawKill(witness)).toBe(true);
+        expect(sawKill(killer)).toBe(true);
+        expect(sawKill(bystander)).toBe(false);
+        expect(sawKill(partner)).toBe(false);
+
+        // The witness walked into room 1 and was seen arriving
+        expect(logs[killer]).toContainEqual({ type: "player_left", round: 1, publicKey: witness, from: 0, to: 1 });
+        expect(logs[wanderer]).toContainEqual({ type: "player_arrived", round: 1, publicKey: witness, from: 0, to: 1 });
+        expect(logs[bystander].some((o) => o.type === "player_left" || o.type === "player_arrived")).toBe(false);
+    });
+
+    it("should let a player find a body once when they walk into its room", () => {
+        advance([{ publicKey: killer, phase: "action", action: { type: "kill", target: victim } }]);
+        advance([
+            { publicKey: killer, phase: "movement", movement: { type: "clockwise" } },
+            { publicKey: witness, phase: "movement", movement: { type: "clockwise" } },
+            { publicKey: wanderer, phase: "movement", movement: { type: "counterclockwise" } },
+        ]);
+        advance();
+        advance();
+
+        const bodiesFound = logs[wanderer].filter((o) => o.type === "body_found");
+        expect(bodiesFound).toEqual([{ type: "body_found", round: 2, room: 0, victim }]);
+        expect(logs[wanderer]).toContainEqual({ type: "room_occupants", round: 3, room: 0, players: [], bodies: [victim] });
+        expect(logs[witness].some((o) => o.type === "body_found")).toBe(false);
+    });
+
+    it("should share meetings and votes with everyone", () => {
+        advance([{ publicKey: bystander, phase: "action", action: { type: "accuse", target: partner } }]);
+        advance();
+        advance();
+
+        PLAYERS.forEach((publicKey) => {
+            expect(logs[publicKey].some((o) => o.type === "meeting_called" && o.accusedPlayer === partner)).toBe(true);
+            expect(logs[publicKey].some((o) => o.type === "vote_tallied")).toBe(true);
+        });
+    });
+});
+
+describe("getPlayerView", () => {
+    it("should hide other rooms, unseen deaths and everyone's actions", () => {
+        let { state, events } = createGame(PLAYERS, 7);
+        let logs = observeEvents({}, undefined, state, events);
+        const players = Array.from(state.players.values());
+        const killer = players.find((p) => p.role.type === "impostor")!.publicKey;
+        const [victim, witness, outsider] = players.filter((p) => p.role.type === "crewmate").map((p) => p.publicKey);
+        players.forEach((p) => (p.role.room = [killer, victim, witness].includes(p.publicKey) ? 0 : 2));
+
+        const steps: PlayerInput[][] = [[{ publicKey: killer, phase: "action", action: { type: "kill", target: victim } }], []];
+        steps.forEach((inputs) => {
+            const result = advancePhase(state, inputs);
+            logs = observeEvents(logs, state, result.state, result.events);
+            state = result.state;
+        });
+
+        const outsiderView = getPlayerView(state, outsider, logs[outsider]);
+        const seenVictim = (view: any) => view.players.find((p: any) => p.publicKey === victim);
+        expect(seenVictim(outsiderView)).toEqual({ publicKey: victim, isAlive: true, room: undefined, role: undefined });
+        expect(outsiderView.yourPublicKey).toBe(outsider);
+        expect(outsiderView.players.some((p: any) => "lastAction" in p)).toBe(false);
+
+        const witnessView = getPlayerView(state, witness, logs[witness]);
+        expect(seenVictim(witnessView)).toMatchObject({ isAlive: false, room: 0 });
+        expect(witnessView.observations).toBe(logs[witness]);
+    });
+});
@@ -0,0 +1,36 @@
+import { PlayerMemory } from "../src/playerMemory.ts";
+
+/**
+ * In-memory stand-in for the runtime's messageManager
+ */
+function createRuntime(): any {
+    const memories = new Map<string, any>();
+    return {
+        agentId: "00000000-0000-0000-0000-000000000001",
+        ensureRoomExists: async () => {},
+        messageManager: {
+            createMemory: async (memory: any) => {
+                if (memories.has(memory.id)) throw new Error("duplicate id");
+                memories.set(memory.id, JSON.parse(JSON.stringify(memory)));
+            },
+            getMemoriesByRoomIds: async ({ roomIds }: { roomIds: string[] }) =>
+                Array.from(memories.values()).filter((m) => roomIds.includes(m.roomId)).reverse(),
+        },
+    };
+}
+
+describe("PlayerMemory", () => {
+    it("should store each event of a match once and recall them in order", async () => {
+        const memory = new PlayerMemory(createRuntime());
+        const first = { text: "Round 1: saw a", event: { round: 1 } };
+        const second = { text: "Round 2: saw b", event: { round: 2 } };
+
+        await memory.remember("m1", [first]);
+        await memory.remember("m1", [first, second]);
+        await memory.remember("m2", [second]);
+
+        expect(await memory.recall("m1")).toEqual([{ round: 1 }, { round: 2 }]);
+        expect(await memory.recall("m2")).toEqual([{ round: 2 }]);
+        expect(await memory.recall("m3")).toEqual([]);
+    });
+});
@@ -0,0 +1,64 @@
+import { Keypair } from "@solana/web3.js";
+import { createEnvelope, NonceRegistry, signResponse, verifyResponse } from "../src/protocol.ts";
+
+describe("NonceRegistry", () => {
+    it("should accept a message once and only before it expires", () => {
+        const nonces = new NonceRegistry();
+        const envelope = createEnvelope({ matchId: "m1", round: 1, phase: "action" }, 2000);
+
+        expect(nonces.accept(envelope, 1000)).toBeNull();
+        expect(nonces.accept(envelope, 1500)).toBe("Message already received");
+        expect(nonces.accept({ ...envelope, nonce: "other" }, 2000)).toBe("Message expired");
+        expect(nonces.accept({ matchId: "m1" }, 1000)).toBe("Message has no nonce or expiry");
+    });
+});
+
+describe("verifyResponse", () => {
+    const player = Keypair.generate();
+    const publicKey = player.publicKey.toBase58();
+    let nonces: NonceRegistry;
+
+    beforeEach(() => {
+        nonces = new NonceRegistry();
+    });
+
+    it("should return the decision of a response signed by the subscriber", async () => {
+        const sent = createEnvelope({ matchId: "m1", round: 2, phase: "voting" }, Date.now() + 60000);
+        const response = await signResponse(player, sent, { target: "p2", voteText: "sus" });
+
+        expect(await verifyResponse(response, publicKey, sent, nonces)).toEqual({
+            decision: { target: "p2", voteText: "sus" },
+        });
+        // The same response delivered twice only counts once
+        expect(await verifyResponse(response, publicKey, sent, nonces)).toEqual({ error: "Message already received" });
+    });
+
+    it("should reject responses signed by another key or tampered with", async () => {
+        const sent = createEnvelope({ matchId: "m1", round: 1, phase: "action" }, Date.now() + 60000);
+        const impostor = await signResponse(Keypair.generate(), sent, { type: "pass" });
+        expect(await verifyResponse(impostor, publicKey, sent, nonces)).toEqual({
+            error: `Response signed by ${impostor.publicKey}, not the subscriber key`,
+        });
+
+        const response = await signResponse(player, sent, { type: "pass" });
+        const tampered = { ...response, payload: { ...response.payload, decision: { type: "kill", target: "p2" } } };
+        expect(await verifyResponse(tampered, publicKey, sent, nonces)).toEqual({ error: "Invalid response signature" });
+        expect(await verifyResponse({ type: "pass" } as any, publicKey, sent, nonces)).toEqual({ error: "Response is not signed" });
+    });
+
+    it("should reject a response to an earlier update", async () => {
+        const earlier = createEnvelope({ matchId: "m1", round: 1, phase: "action" }, Date.now() + 60000);
+        const sent = createEnvelope({ matchId: "m1", round: 2, phase: "action" }, Date.now() + 60000);
+        const replayed = await signResponse(player, earlier, { type: "kill", target: "p2" });
+
+        expect(await verifyResponse(replayed, publicKey, sent, nonces)).toEqual({
+            error: "Response answers another request (m1 round 1 action)",
+        });
+    });
+
+    it("should reject a response after the update expired", async () => {
+        const sent = createEnvelope({ matchId: "m1", round: 1, phase: "movement" }, 5000);
+        const response = await signResponse(player, sent, { type: "stay" });
+        expect(await verifyResponse(response, publicKey, sent, nonces, 6000)).toEqual({ error: "Message expired" });
+    });
+});
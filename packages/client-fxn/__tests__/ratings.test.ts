@@ -0,0 +1,60 @@
+import { MatchRecord } from "../src/matchHistory.ts";
+import { buildPlayerStats, getRating, INITIAL_RATING } from "../src/ratings.ts";
+
+function createRecord(matchId: string, endedAt: number, winner: MatchRecord["winner"], impostor: string): MatchRecord {
+    const crew = ["a", "b", "c"].filter((p) => p !== impostor);
+    return {
+        matchId,
+        seed: 1,
+        startedAt: 0,
+        endedAt,
+        participants: [
+            ...crew.map((publicKey) => ({ publicKey, role: "crewmate" as const, isBot: false, survived: true })),
+            { publicKey: "bot-4", role: "crewmate", isBot: true, survived: true },
+            { publicKey: impostor, role: "impostor", isBot: false, survived: winner === "impostors" },
+        ],
+        rounds: 3,
+        kills: [{ round: 1, killer: impostor, victim: "bot-4" }],
+        meetings: [{
+            round: 2,
+            accusedPlayer: impostor,
+            votes: [
+                { voter: crew[0], target: impostor, voteText: "saw it" },
+                { voter: crew[1], target: null, voteText: "not sure" },
+            ],
+            ejected: winner === "crew" ? impostor : null,
+        }],
+        winner,
+        invalidDecisions: {},
+    };
+}
+
+describe("buildPlayerStats", () => {
+    it("should count games, role wins, kills and correct ejections", () => {
+        const stats = buildPlayerStats([createRecord("m1", 1, "crew", "c")]);
+
+        expect(stats.map((s) => [s.publicKey, s.rating])).toEqual([["a", 1516], ["b", 1516], ["c", 1484]]);
+        expect(stats[0]).toMatchObject({
+            gamesPlayed: 1,
+            wins: 1,
+            crewmate: { games: 1, wins: 1 },
+            impostor: { games: 0, wins: 0 },
+            correctEjections: 1,
+        });
+        expect(stats[2]).toMatchObject({ wins: 0, kills: 1, correctEjections: 0, impostor: { games: 1, wins: 0 } });
+        expect(stats.map((s) => s.publicKey)).not.toContain("bot-4");
+    });
+
+    it("should replay matches oldest first and reward upsets more", () => {
+        // History lists the most recent match first
+        const stats = buildPlayerStats([
+            createRecord("m2", 2, "impostors", "c"),
+            createRecord("m1", 1, "crew", "c"),
+        ]);
+
+        // c beat a crew rated above them and wins back more than they lost
+        expect(getRating(stats, "c")).toBeGreaterThan(INITIAL_RATING);
+        expect(stats.find((s) => s.publicKey === "c")).toMatchObject({ gamesPlayed: 2, wins: 1, kills: 2 });
+        expect(getRating(stats, "unknown")).toBe(INITIAL_RATING);
+    });
+});
@@ -0,0 +1,72 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { buildReplay, ReplayEntry, ReplayLog } from "../src/replayLog.ts";
+
+describe("ReplayLog", () => {
+    let dataDir: string;
+    let replays: ReplayLog;
+
+    beforeEach(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "fxn-replays-"));
+        replays = new ReplayLog(dataDir);
+    });
+
+    afterEach(() => {
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it("should write entries in order and read them back", async () => {
+        const context = { matchId: "match-1", round: 1, phase: "action" };
+        replays.append(context, { type: "view_sent", publicKey: "p1", view: { phase: "action" } });
+        replays.append(context, { type: "response_received", publicKey: "p1", response: { type: "pass" } });
+        await replays.flush();
+
+        const entries = await replays.load("match-1");
+        expect(entries.map((e) => e.type)).toEqual(["view_sent", "response_received"]);
+        expect(entries[0]).toMatchObject({ ...context, publicKey: "p1" });
+    });
+
+    it("should return null for matches without a log", async () => {
+        expect(await replays.load("missing")).toBeNull();
+    });
+
+    it("should refuse match ids that are not plain ids", async () => {
+        await expect(replays.load("../subscribers")).rejects.toThrow("Invalid match id ../subscribers");
+    });
+});
+
+describe("buildReplay", () => {
+    it("should group entries into phases with each player's perspective", () => {
+        const at = (round: number, phase: string) => ({ matchId: "m", round, phase, timestamp: 0 });
+        const entries: ReplayEntry[] = [
+            {
+                ...at(1, "setup"),
+                type: "match_started",
+                seed: 7,
+                rules: undefined,
+                players: ["p1", "p2"],
+                events: [{ type: "round_started", round: 1, actionOrder: ["p1", "p2"] }],
+            },
+            { ...at(1, "action"), type: "view_sent", publicKey: "p1", view: { phase: "action" } },
+            { ...at(1, "action"), type: "response_received", publicKey: "p1", response: { type: "kill", target: "p2" } },
+            { ...at(1, "action"), type: "decision", publicKey: "p1", error: "Target is not in your room" },
+            { ...at(1, "action"), type: "decision", publicKey: "p2", input: { publicKey: "p2", phase: "action", action: { type: "pass" } } },
+            { ...at(1, "action"), type: "events", events: [{ type: "game_over", winner: "crew" }] },
+            { ...at(1, "complete"), type: "view_sent", publicKey: "p1", view: { phase: "complete" } },
+            { ...at(1, "complete"), type: "match_over", winner: "crew", participants: [] },
+        ];
+
+        const replay = buildReplay("m", entries);
+        expect(replay).toMatchObject({ matchId: "m", seed: 7, players: ["p1", "p2"], winner: "crew", finished: true });
+        expect(replay.setup).toHaveLength(1);
+        expect(replay.steps).toHaveLength(1);
+        expect(replay.steps[0].events).toEqual([{ type: "game_over", winner: "crew" }]);
+        expect(replay.steps[0].perspectives.p1).toEqual({
+            view: { phase: "action" },
+            response: { type: "kill", target: "p2" },
+            decision: { input: undefined, error: "Target is not in your room" },
+        });
+        expect(replay.steps[0].perspectives.p2.decision.input).toBeDefined();
+    });
+});
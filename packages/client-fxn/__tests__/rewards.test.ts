@@ -0,0 +1,120 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { DEFAULT_MATCH_CONFIG, MatchConfig } from "../src/matchConfig.ts";
+import { MatchRecord } from "../src/matchHistory.ts";
+import { getRewardRecipients, PayoutLedger, RewardDistributor } from "../src/rewards.ts";
+
+const config: MatchConfig = { ...DEFAULT_MATCH_CONFIG, crewReward: 10, impostorReward: 25 };
+
+function createRecord(winner: MatchRecord["winner"]): MatchRecord {
+    return {
+        matchId: "m1",
+        seed: 1,
+        startedAt: 0,
+        endedAt: 1,
+        participants: [
+            { publicKey: "alive-crew", role: "crewmate", isBot: false, survived: true },
+            { publicKey: "dead-crew", role: "crewmate", isBot: false, survived: false },
+            { publicKey: "bot-3", role: "crewmate", isBot: true, survived: true },
+            { publicKey: "impostor", role: "impostor", isBot: false, survived: true }
+        ],
+        rounds: 3,
+        kills: [],
+        meetings: [],
+        winner,
+        invalidDecisions: {}
+    };
+}
+
+/**
+ * Stand-in for FxnClient that fails the first `failures` transfers
+ */
+function createFxnClient(failures = 0): any {
+    const transfers: Array<{ publicKey: string; amount: number }> = [];
+    return {
+        transfers,
+        transferRewardTokens: async (publicKey: string, amount: number) => {
+            transfers.push({ publicKey, amount });
+            if (transfers.length <= failures) {
+                return { signature: "", status: "error", message: "rpc down" };
+            }
+            return { signature: `sig-${transfers.length}`, status: "success" };
+        }
+    };
+}
+
+describe("getRewardRecipients", () => {
+    it("should pay surviving real winners the amount for their side", () => {
+        expect(getRewardRecipients(createRecord("crew"), config)).toEqual([
+            { publicKey: "alive-crew", amount: 10 }
+        ]);
+        expect(getRewardRecipients(createRecord("impostors"), config)).toEqual([
+            { publicKey: "impostor", amount: 25 }
+        ]);
+    });
+
+    it("should follow the dead winner and disabled side settings", () => {
+        expect(
+            getRewardRecipients(createRecord("crew"), { ...config, rewardDeadWinners: true }).map((r) => r.publicKey)
+        ).toEqual(["alive-crew", "dead-crew"]);
+        expect(getRewardRecipients(createRecord("impostors"), { ...config, impostorReward: 0 })).toEqual([]);
+        expect(getRewardRecipients(createRecord(undefined), config)).toEqual([]);
+    });
+});
+
+describe("RewardDistributor", () => {
+    let dataDir: string;
+    let ledger: PayoutLedger;
+
+    beforeEach(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "fxn-payouts-"));
+        ledger = new PayoutLedger(dataDir);
+    });
+
+    afterEach(() => {
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it("should pay each winner once even if the match is queued again", async () => {
+        const fxnClient = createFxnClient();
+        const distributor = new RewardDistributor(fxnClient, ledger);
+
+        await distributor.queuePayouts("m1", getRewardRecipients(createRecord("crew"), config));
+        await distributor.processPending();
+        await distributor.queuePayouts("m1", getRewardRecipients(createRecord("crew"), config));
+        await distributor.processPending();
+
+        expect(fxnClient.transfers).toEqual([{ publicKey: "alive-crew", amount: 10 }]);
+        expect(await ledger.list()).toMatchObject([
+            { payoutId: "m1:alive-crew", status: "paid", attempts: 1, signature: "sig-1" }
+        ]);
+    });
+
+    it("should retry failed transfers", async () => {
+        const fxnClient = createFxnClient(1);
+        const distributor = new RewardDistributor(fxnClient, ledger);
+
+        await distributor.queuePayouts("m1", getRewardRecipients(createRecord("crew"), config));
+        expect((await distributor.processPending())[0].status).toBe("failed");
+        expect((await distributor.processPending())[0]).toMatchObject({ status: "paid", attempts: 2 });
+    });
+
+    it("should not resend a transfer interrupted by a restart", async () => {
+        await ledger.record({
+            payoutId: "m1:alive-crew",
+            matchId: "m1",
+            publicKey: "alive-crew",
+            amount: 10,
+            status: "sending",
+            attempts: 1,
+            updatedAt: 0
+        });
+        const fxnClient = createFxnClient();
+
+        const [payout] = await new RewardDistributor(fxnClient, ledger).processPending();
+
+        expect(payout.status).toBe("unconfirmed");
+        expect(fxnClient.transfers).toEqual([]);
+    });
+});
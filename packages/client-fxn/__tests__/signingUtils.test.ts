@@ -0,0 +1,47 @@
+import { Keypair } from "@solana/web3.js";
+import vectors from "./fixtures/signing-vectors.json";
+import { canonicalize, signMessage, SIGNING_VERSION, verifyMessage } from "../src/utils/signingUtils.ts";
+
+describe("canonicalize", () => {
+    it("should sort keys, drop undefined members and refuse non-finite numbers", () => {
+        expect(canonicalize({ b: [undefined, 1], a: undefined, c: -0 })).toBe('{"b":[null,1],"c":0}');
+        expect(() => canonicalize({ score: NaN })).toThrow("Cannot canonicalize NaN");
+        expect(() => canonicalize(BigInt(1))).toThrow("Cannot canonicalize a bigint");
+    });
+});
+
+describe("signing vectors", () => {
+    const keypair = Keypair.fromSeed(Buffer.from(vectors.seed, "hex"));
+
+    it("should use the documented key", () => {
+        expect(keypair.publicKey.toBase58()).toBe(vectors.publicKey);
+        expect(vectors.version).toBe(SIGNING_VERSION);
+    });
+
+    it.each(vectors.vectors.map((v) => [v.name, v] as const))("%s", async (_, vector) => {
+        const payload = JSON.parse(vector.json);
+        expect(canonicalize(payload)).toBe(vector.canonical);
+
+        const signed = await signMessage(keypair, payload);
+        expect(signed.signature).toBe(vector.signature);
+        expect((await verifyMessage(signed)).isValid).toBe(true);
+    });
+});
+
+describe("verifyMessage", () => {
+    const keypair = Keypair.generate();
+
+    it("should accept a payload re-serialized with another key order", async () => {
+        const signed = await signMessage(keypair, { round: 1, phase: "action", decision: { type: "pass" } });
+        const reordered = JSON.parse('{"decision":{"type":"pass"},"phase":"action","round":1.0}');
+
+        expect((await verifyMessage({ ...signed, payload: reordered })).isValid).toBe(true);
+    });
+
+    it("should refuse other signature versions", async () => {
+        const signed = await signMessage(keypair, { round: 1 });
+        await expect(verifyMessage({ ...signed, version: 0 })).rejects.toThrow(
+            "Failed to verify message: unsupported version 0, expected 1"
+        );
+    });
+});
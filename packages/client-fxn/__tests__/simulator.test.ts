@@ -0,0 +1,157 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createGame } from "../src/amongUsEngine.ts";
+import { amongUsModule } from "../src/amongUsModule.ts";
+import { validateDecision } from "../src/decisionSchema.ts";
+import { DEFAULT_MATCH_CONFIG } from "../src/matchConfig.ts";
+import {
+    botSeat,
+    createMockModel,
+    getSeatKeys,
+    loadRecordedModel,
+    modelSeat,
+    runSimulation,
+    simulateMatch,
+    SimulatedMatch,
+    summarizeMatches,
+} from "../src/simulator.ts";
+import { mulberry32 } from "../src/utils/random.ts";
+
+describe("simulateMatch", () => {
+    it("should play a bot match to the end", async () => {
+        const seats = getSeatKeys(6, 0).map((key) => botSeat(key));
+        const match = await simulateMatch(seats, 1, DEFAULT_MATCH_CONFIG);
+
+        expect(match.winner).toBeDefined();
+        expect(match.rounds).toBeGreaterThan(0);
+        expect(match.phases.action).toBeGreaterThan(0);
+        expect(match.decisions.bot).toBeGreaterThan(0);
+        expect(match.decisions.model).toBe(0);
+    });
+
+    it("should count replies the engine rejects as invalid moves", async () => {
+        const keys = getSeatKeys(6, 2);
+        const confused = async () => "I'll wander around for a bit";
+        const seats = keys.map((key, i) => (i < 2 ? modelSeat(key, confused) : botSeat(key)));
+        const match = await simulateMatch(seats, 2, DEFAULT_MATCH_CONFIG, 3);
+
+        // Free text is no JSON decision
+        expect(match.decisions.model).toBeGreaterThan(0);
+        expect(match.invalid.model).toBe(match.decisions.model);
+        expect(match.invalid.bot).toBe(0);
+    });
+});
+
+describe("modelSeat", () => {
+    const { state } = createGame(getSeatKeys(6, 0), 4);
+    const match = { state, observations: {} };
+    const view = amongUsModule.getPlayerView(match, "bot-1");
+    const schema = amongUsModule.getDecisionSchema!(view);
+
+    it("should prompt the model the way players do", async () => {
+        const prompts: string[] = [];
+        const seat = modelSeat("bot-1", async (prompt) => {
+            prompts.push(prompt);
+            return '{"type": "pass"}';
+        });
+
+        expect(await seat.play(view)).toEqual({ type: "pass" });
+        const evidence = amongUsModule.summarizeMemory!([], view) || undefined;
+        expect(prompts).toEqual([amongUsModule.createDecisionPrompt!(view, schema, evidence)]);
+    });
+
+    it("should ask for a repair of replies that don't match the schema", async () => {
+        const replies = ['{"type": "dance"}', "no idea", '{"type": "pass"}'];
+        const prompts: string[] = [];
+        const seat = modelSeat("bot-1", async (prompt) => {
+            prompts.push(prompt);
+            return replies.shift()!;
+        });
+
+        expect(await seat.play(view)).toEqual({ type: "pass" });
+        expect(prompts[1]).toContain('Your previous reply was {"type":"dance"}');
+        expect(prompts[2]).toContain("Your previous reply was null");
+
+        const stubborn = modelSeat("bot-1", async () => '{"type": "dance"}', 1);
+        expect(await stubborn.play(view)).toEqual({});
+    });
+});
+
+describe("createMockModel", () => {
+    it("should fill in the schema in the prompt", async () => {
+        const { state } = createGame(getSeatKeys(6, 0), 4);
+        const view = amongUsModule.getPlayerView({ state, observations: {} }, "bot-1");
+        const schema = amongUsModule.getDecisionSchema!(view);
+        const model = createMockModel(() => 0.99);
+
+        const decision = JSON.parse(await model(amongUsModule.createDecisionPrompt!(view, schema)));
+        expect(validateDecision(schema, decision)).toEqual([]);
+        expect(await model("Nothing to choose")).toBe("pass");
+    });
+});
+
+describe("loadRecordedModel", () => {
+    it("should replay recorded replies and fall back on unknown prompts", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fxn-recording-"));
+        try {
+            const file = path.join(dir, "prompts.jsonl");
+            fs.writeFileSync(file, JSON.stringify({ prompt: "move?", response: "clockwise" }) + "\n");
+            const recorded = loadRecordedModel(file, async () => "stay");
+
+            expect(await recorded.model("move?")).toBe("clockwise");
+            expect(await recorded.model("vote?")).toBe("stay");
+            expect(recorded.misses()).toBe(1);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe("summarizeMatches", () => {
+    it("should aggregate win rates, ejection accuracy and invalid moves", () => {
+        const base: SimulatedMatch = {
+            seed: 1,
+            winner: "crew",
+            rounds: 4,
+            phases: { action: 4, movement: 4, voting: 1 },
+            kills: 2,
+            ejected: ["impostor", "crewmate"],
+            decisions: { bot: 40, model: 10 },
+            invalid: { bot: 0, model: 5 },
+        };
+        const stats = summarizeMatches(
+            [base, { ...base, winner: "impostors", rounds: 2, kills: 4, ejected: ["impostor"] }, { ...base, winner: undefined }],
+            DEFAULT_MATCH_CONFIG
+        );
+
+        expect(stats.matches).toBe(3);
+        expect(stats.unfinished).toBe(1);
+        expect(stats.winRate).toEqual({ crew: 1 / 3, impostors: 1 / 3 });
+        expect(stats.averageRounds).toBeCloseTo(10 / 3);
+        expect(stats.ejections).toEqual({ total: 5, impostors: 3, accuracy: 0.6 });
+        expect(stats.invalidMoveRate).toEqual({ bot: 0, model: 0.5, overall: 0.1 });
+        expect(stats.averageDurationMs).toBe(4 * 30000 + 4 * 15000 + 45000);
+    });
+});
+
+describe("runSimulation", () => {
+    it("should give the same stats for the same seed", async () => {
+        const config = { ...DEFAULT_MATCH_CONFIG, botStrategies: ["random", "heuristic"] };
+        const run = (seed: number) => {
+            const random = mulberry32(seed);
+            const model = createMockModel(random);
+            return runSimulation({ matches: 5, players: 6, modelPlayers: 2, model, seed, random, maxRounds: 10 }, config);
+        };
+
+        const stats = await run(3);
+        expect(await run(3)).toEqual(stats);
+        expect(stats.invalidMoveRate.model).toBeGreaterThan(0);
+    });
+
+    it("should reject more model players than seats", async () => {
+        await expect(
+            runSimulation({ matches: 1, players: 6, modelPlayers: 7, model: async () => "pass", seed: 1 }, DEFAULT_MATCH_CONFIG)
+        ).rejects.toThrow("Cannot seat 7 model players at a table of 6");
+    });
+});
@@ -0,0 +1,106 @@
+import { createGame } from "../src/amongUsEngine.ts";
+import { MatchRecord } from "../src/matchHistory.ts";
+import { Payout } from "../src/rewards.ts";
+import { buildLeaderboard, buildSpectatorState } from "../src/spectator.ts";
+import { GameEvent } from "../src/types.ts";
+
+describe("buildSpectatorState", () => {
+    it("should describe an empty lobby", () => {
+        const view = buildSpectatorState({ status: "lobby", events: [] });
+        expect(view).toMatchObject({ status: "lobby", players: [], rooms: [], history: [] });
+    });
+
+    it("should hide roles, killers, rooms and unreported bodies while the match is running", () => {
+        const { state } = createGame(["a", "b", "c", "bot-4"], 5);
+        const impostor = Array.from(state.players.values()).find((p) => p.role.type === "impostor")!;
+        const victim = Array.from(state.players.values()).find((p) => p.role.type === "crewmate")!;
+        victim.isAlive = false;
+        const events: Array<GameEvent & { round: number }> = [
+            { type: "kill", killer: impostor.publicKey, victim: victim.publicKey, room: victim.role.room, round: 1 }
+        ];
+
+        const view = buildSpectatorState({ status: "playing", state, events, presence: { a: "bot" } });
+
+        expect(view.players.every((p) => p.role === undefined && p.room === undefined)).toBe(true);
+        expect(view.players.find((p) => p.publicKey === "a")!.presence).toBe("bot");
+        expect(view.players.filter((p) => p.presence === "active")).toHaveLength(3);
+        expect(view.players.find((p) => p.publicKey === "bot-4")!.isBot).toBe(true);
+        expect(view.players.find((p) => p.publicKey === victim.publicKey)!.isAlive).toBe(true);
+        expect(view.history).toEqual([]);
+        expect(view.rooms).toEqual([]);
+
+        // A reported body is known to everyone, but not where or by whom
+        state.reportedBodies.push(victim.publicKey);
+        events.push({
+            type: "meeting_called",
+            reportedBody: victim.publicKey,
+            reporter: "a",
+            accusations: [],
+            round: 2
+        });
+        const reported = buildSpectatorState({ status: "playing", state, events });
+        expect(reported.players.find((p) => p.publicKey === victim.publicKey)!.isAlive).toBe(false);
+        expect(reported.history).toEqual([{ round: 2, deaths: [{ victim: victim.publicKey }] }]);
+
+        state.isActive = false;
+        const revealed = buildSpectatorState({ status: "finished", state, events });
+        expect(revealed.players.find((p) => p.publicKey === impostor.publicKey)!.role).toBe("impostor");
+        expect(revealed.history).toEqual([
+            { round: 1, deaths: [{ victim: victim.publicKey, room: victim.role.room, killer: impostor.publicKey }] }
+        ]);
+        expect(revealed.rooms).toHaveLength(state.rules.roomCount);
+        expect(revealed.rooms[victim.role.room].dead).toEqual([victim.publicKey]);
+    });
+});
+
+describe("buildLeaderboard", () => {
+    const record = (matchId: string, winner: "crew" | "impostors", endedAt: number): MatchRecord => ({
+        matchId,
+        seed: 1,
+        startedAt: 0,
+        endedAt,
+        participants: [
+            { publicKey: "a", role: "crewmate", isBot: false, survived: true },
+            { publicKey: "b", role: "impostor", isBot: false, survived: true },
+            { publicKey: "bot-3", role: "crewmate", isBot: true, survived: true }
+        ],
+        rounds: 1,
+        kills: [],
+        meetings: [],
+        winner,
+        invalidDecisions: {}
+    });
+
+    it("should rank real players by wins and skip bots", () => {
+        const leaderboard = buildLeaderboard([
+            record("m1", "crew", 100),
+            record("m2", "crew", 200),
+            record("m3", "impostors", 300)
+        ]);
+
+        expect(leaderboard).toEqual([
+            { publicKey: "a", wins: 2, gamesPlayed: 3, timestamp: 200, rewards: 0 },
+            { publicKey: "b", wins: 1, gamesPlayed: 3, timestamp: 300, rewards: 0 }
+        ]);
+    });
+
+    it("should add up paid rewards and link the latest transfer", () => {
+        const payout = (matchId: string, status: Payout["status"], updatedAt: number): Payout => ({
+            payoutId: `${matchId}:a`,
+            matchId,
+            publicKey: "a",
+            amount: 10,
+            status,
+            attempts: 1,
+            signature: `sig-${matchId}`,
+            updatedAt
+        });
+
+        const [entry] = buildLeaderboard(
+            [record("m1", "crew", 100), record("m2", "crew", 200), record("m3", "crew", 300)],
+            [payout("m2", "paid", 20), payout("m1", "paid", 10), payout("m3", "failed", 30)]
+        );
+
+        expect(entry).toMatchObject({ publicKey: "a", rewards: 20, transactionHash: "sig-m2" });
+    });
+});
@@ -0,0 +1,103 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { MatchRecord } from "../src/matchHistory.ts";
+import {
+    createTournament,
+    getNextTable,
+    recordTableResult,
+    seatTable,
+    seedTables,
+    TournamentStore,
+} from "../src/tournament.ts";
+
+function createRecord(crew: string[], impostors: string[], winner: MatchRecord["winner"]): MatchRecord {
+    return {
+        matchId: "m",
+        seed: 1,
+        startedAt: 0,
+        endedAt: 1,
+        participants: [
+            ...crew.map((publicKey) => ({ publicKey, role: "crewmate" as const, isBot: publicKey.startsWith("bot-"), survived: true })),
+            ...impostors.map((publicKey) => ({ publicKey, role: "impostor" as const, isBot: false, survived: true })),
+        ],
+        rounds: 3,
+        kills: [],
+        meetings: [],
+        winner,
+        invalidDecisions: {},
+    };
+}
+
+describe("seedTables", () => {
+    it("should snake seeds across the fewest tables", () => {
+        expect(seedTables(["p1", "p2", "p3", "p4", "p5", "p6", "p7"], 3)).toEqual([
+            ["p1", "p6", "p7"],
+            ["p2", "p5"],
+            ["p3", "p4"],
+        ]);
+    });
+});
+
+describe("tournament", () => {
+    const stats: any[] = [
+        { publicKey: "p1", rating: 1600 },
+        { publicKey: "p2", rating: 1550 },
+    ];
+
+    it("should seed by rating and advance winners to a final", () => {
+        const tournament = createTournament(["p5", "p2", "p4", "p1", "p3", "p6", "p2"], stats, 3);
+        expect(tournament.seeds.map((s) => s.publicKey)).toEqual(["p1", "p2", "p5", "p4", "p3", "p6"]);
+        expect(tournament.rounds[0].tables.map((t) => t.players)).toEqual([["p1", "p4", "p3"], ["p2", "p5", "p6"]]);
+
+        // p3 missed the first table, the crew wins and both its players go through
+        const first = getNextTable(tournament)!;
+        seatTable(first, "m1", ["p1", "p2", "p4", "p5", "p6"]);
+        expect(first.seated).toEqual(["p1", "p4"]);
+        recordTableResult(tournament, "m1", createRecord(["p1", "p4", "bot-3"], ["bot-4"], "crew"), stats);
+        expect(first.advanced).toEqual(["p1"]);
+
+        // At most half the table goes through
+        const second = getNextTable(tournament)!;
+        seatTable(second, "m2", ["p2", "p5", "p6"]);
+        recordTableResult(tournament, "m2", createRecord(["p5"], ["p2", "p6"], "impostors"), stats);
+        expect(second.advanced).toEqual(["p2", "p6"]);
+
+        expect(tournament.rounds[1].tables.map((t) => t.players)).toEqual([["p1", "p2", "p6"]]);
+        const final = getNextTable(tournament)!;
+        seatTable(final, "m3", ["p1", "p2", "p6"]);
+        recordTableResult(tournament, "m3", createRecord(["p1", "p6"], ["p2"], "crew"), stats);
+
+        expect(tournament.champions).toEqual(["p1", "p6"]);
+        expect(tournament.finishedAt).toBeDefined();
+        expect(getNextTable(tournament)).toBeNull();
+    });
+
+    it("should replay a table whose match never finished", () => {
+        const tournament = createTournament(["p1", "p2", "p3"], stats, 3);
+        seatTable(getNextTable(tournament)!, "lost", ["p1", "p2", "p3"]);
+
+        expect(getNextTable(tournament)!.matchId).toBe("lost");
+        recordTableResult(tournament, "unknown", null, stats);
+        expect(tournament.finishedAt).toBeUndefined();
+    });
+
+    it("should refuse tournaments that can't be played", () => {
+        expect(() => createTournament(["p1"], stats, 3)).toThrow("A tournament needs at least 2 players");
+        expect(() => createTournament(["p1", "p2"], stats, 2)).toThrow("tableSize must be an integer of at least 3");
+    });
+});
+
+describe("TournamentStore", () => {
+    it("should load the latest state of the latest tournament", async () => {
+        const store = new TournamentStore(fs.mkdtempSync(path.join(os.tmpdir(), "fxn-tournament-")));
+        expect(await store.latest()).toBeNull();
+
+        const tournament = createTournament(["p1", "p2", "p3"], [], 3);
+        await store.save(tournament);
+        seatTable(getNextTable(tournament)!, "m1", ["p1"]);
+        await store.save(tournament);
+
+        expect(await store.latest()).toEqual(tournament);
+    });
+});
@@ -0,0 +1,111 @@
+import {
+    buildWordAileLeaderboard,
+    DEFAULT_WORDAILE_CONFIG,
+    DICTIONARY,
+    getSpectatorBoards,
+    loadWordAileConfig,
+    normalizeWords,
+    scoreGuess,
+    WordAileMatchRecord,
+    WordAileState,
+} from "../src/wordAile.ts";
+
+function runtimeWithSettings(settings: Record<string, any>): any {
+    return { getSetting: (key: string) => settings[key] ?? null };
+}
+
+describe("scoreGuess", () => {
+    it("should mark exact, misplaced and missing letters", () => {
+        expect(scoreGuess("crane", "caper")).toEqual(["correct", "present", "present", "absent", "present"]);
+        expect(scoreGuess("caper", "caper")).toEqual(["correct", "correct", "correct", "correct", "correct"]);
+    });
+
+    it("should only mark as many duplicate letters as the word has", () => {
+        // One e in the secret, already matched in place
+        expect(scoreGuess("geese", "those")).toEqual(["absent", "absent", "absent", "correct", "correct"]);
+        // One l in the secret and no exact match, only the first guessed l is present
+        expect(scoreGuess("llama", "hello")).toEqual(["present", "present", "absent", "absent", "absent"]);
+        expect(scoreGuess("allay", "lolly")).toEqual(["absent", "present", "correct", "absent", "correct"]);
+    });
+});
+
+describe("normalizeWords", () => {
+    it("should split glued entries, normalize case and drop duplicates", () => {
+        expect(normalizeWords(["vital,abase", " Crane ", "crane"])).toEqual(["vital", "abase", "crane"]);
+    });
+
+    it("should reject anything that isn't a five letter word", () => {
+        expect(() => normalizeWords(["crane", "cranes"])).toThrow("Invalid dictionary words: cranes");
+        expect(() => normalizeWords(["cr4ne"])).toThrow("cr4ne");
+    });
+
+    it("should leave the bundled dictionary clean", () => {
+        expect(DICTIONARY.length).toBeGreaterThan(0);
+        expect(DICTIONARY.every((word) => /^[a-z]{5}$/.test(word))).toBe(true);
+    });
+});
+
+describe("loadWordAileConfig", () => {
+    it("should read settings over the defaults", () => {
+        expect(loadWordAileConfig(runtimeWithSettings({}))).toEqual(DEFAULT_WORDAILE_CONFIG);
+        expect(loadWordAileConfig(runtimeWithSettings({ FXN_WORDAILE_WORDS_TO_WIN: "1" })).wordsToWin).toBe(1);
+    });
+
+    it("should reject invalid settings", () => {
+        expect(() => loadWordAileConfig(runtimeWithSettings({ FXN_WORDAILE_MAX_GUESSES: "0" }))).toThrow(
+            "Invalid WordAIle config"
+        );
+    });
+});
+
+describe("buildWordAileLeaderboard", () => {
+    it("should count wins and games per player", () => {
+        const records: WordAileMatchRecord[] = [
+            { matchId: "m1", startedAt: 0, endedAt: 100, words: ["crane"], scores: { a: 3, b: 1 }, winners: ["a"] },
+            { matchId: "m2", startedAt: 200, endedAt: 300, words: ["vital"], scores: { a: 3, b: 3 }, winners: ["a", "b"] },
+        ];
+
+        const leaderboard = buildWordAileLeaderboard(records);
+        expect(leaderboard.map((e) => [e.publicKey, e.wins, e.gamesPlayed])).toEqual([
+            ["a", 2, 2],
+            ["b", 1, 2],
+        ]);
+        expect(leaderboard[1].timestamp).toBe(300);
+    });
+});
+
+describe("getSpectatorBoards", () => {
+    const state: WordAileState = {
+        round: 1,
+        turn: 2,
+        maxGuesses: 6,
+        wordsToWin: 3,
+        boards: new Map([
+            ["a", {
+                guesses: [
+                    { word: "crane", feedback: scoreGuess("crane", "caper") },
+                    { word: "caper", feedback: scoreGuess("caper", "caper") },
+                ],
+                solved: true,
+            }],
+            ["b", { guesses: [{ word: "vital", feedback: scoreGuess("vital", "caper") }], solved: false }],
+        ]),
+        scores: new Map([["a", 1]]),
+    };
+
+    it("should not give away a solved word while it is being played", () => {
+        const boards = getSpectatorBoards(state, false);
+        expect(JSON.stringify(boards)).not.toContain("caper");
+        expect(boards[0]).toEqual({
+            publicKey: "a",
+            guesses: [{ feedback: scoreGuess("crane", "caper") }, { feedback: scoreGuess("caper", "caper") }],
+            solved: true,
+            wordsGuessed: 1,
+        });
+        expect(boards[1].wordsGuessed).toBe(0);
+    });
+
+    it("should show the guessed words once the word is over", () => {
+        expect(getSpectatorBoards(state, true)[0].guesses.map((g) => g.word)).toEqual(["crane", "caper"]);
+    });
+});
@@ -0,0 +1,63 @@
+/**
+ * How a seat is being played. An AFK seat is auto-played by a bot strategy
+ * ('bot') or left to pass ('disconnected') until its player answers again.
+ */
+export type Presence = 'active' | 'bot' | 'disconnected';
+
+export interface AfkState {
+    missedPhases: Record<string, number>;  // publicKey -> phases in a row without an answer
+    presence: Record<string, Presence>;  // Only AFK players are listed
+}
+
+export interface PresenceChange {
+    publicKey: string;
+    presence: Presence;
+    missedPhases: number;
+}
+
+export function createAfkState(): AfkState {
+    return { missedPhases: {}, presence: {} };
+}
+
+export function getPresence(afk: AfkState, publicKey: string): Presence {
+    return afk.presence[publicKey] ?? 'active';
+}
+
+/**
+ * Count a finished phase against the players who were asked for a decision.
+ * A player goes AFK after `afkAfterMissedPhases` phases in a row without any
+ * answer, valid or not, and is back as soon as they answer again. Returns the
+ * new state and whose presence changed; 0 missed phases never marks anyone.
+ */
+export function recordPhase(
+    afk: AfkState,
+    expected: string[],
+    answered: Set<string>,
+    afkAfterMissedPhases: number,
+    policy: Exclude<Presence, 'active'>
+): { afk: AfkState; changes: PresenceChange[] } {
+    const next: AfkState = { missedPhases: { ...afk.missedPhases }, presence: { ...afk.presence } };
+    const changes: PresenceChange[] = [];
+
+    expected.forEach(publicKey => {
+        const wasAfk = publicKey in next.presence;
+        if (answered.has(publicKey)) {
+            const missedPhases = next.missedPhases[publicKey] ?? 0;
+            delete next.missedPhases[publicKey];
+            if (wasAfk) {
+                delete next.presence[publicKey];
+                changes.push({ publicKey, presence: 'active', missedPhases });
+            }
+            return;
+        }
+
+        const missedPhases = (next.missedPhases[publicKey] ?? 0) + 1;
+        next.missedPhases[publicKey] = missedPhases;
+        if (!wasAfk && afkAfterMissedPhases > 0 && missedPhases >= afkAfterMissedPhases) {
+            next.presence[publicKey] = policy;
+            changes.push({ publicKey, presence: policy, missedPhases });
+        }
+    });
+
+    return { afk: next, changes };
+}
@@ -0,0 +1,256 @@
+import {GameView} from "./gameModule.ts";
+import {scoreSuspicion, Suspicion} from "./amongUsDeduction.ts";
+
+/**
+ * A float in [0, 1), Math.random or a seeded sequence for reproducible matches
+ */
+export type Random = () => number;
+
+/**
+ * How a bot seat plays. Bots see exactly what a player in their seat would
+ * and reply with the same response body.
+ */
+export interface BotStrategy {
+    name: string;
+    respond(gameState: GameView, random: Random): any;
+}
+
+const MOVEMENTS = ['stay', 'clockwise', 'counterclockwise'];
+
+// Suspicion a crew bot needs before accusing or voting, see amongUsDeduction's weights
+const ACCUSE_THRESHOLD = 3;
+const VOTE_THRESHOLD = 1;
+const WITNESSED_KILL = 10;
+
+function pick<T>(options: T[], random: Random): T {
+    return options[Math.floor(random() * options.length)];
+}
+
+function roomAfter(room: number, movement: string, roomCount: number): number {
+    if (movement === 'clockwise') return (room + 1) % roomCount;
+    if (movement === 'counterclockwise') return (room + roomCount - 1) % roomCount;
+    return room;
+}
+
+/**
+ * Living players the bot can see in its room, itself left out
+ */
+function othersInRoom(gameState: GameView): any[] {
+    return gameState.players.filter((p: any) =>
+        p.isAlive && p.room === gameState.yourRole.room && p.publicKey !== gameState.yourPublicKey);
+}
+
+/**
+ * Kills at 30%, moves at random and votes for the accused 70% of the time.
+ * Deliberately weak, for testing.
+ */
+export const randomStrategy: BotStrategy = {
+    name: 'random',
+    respond(gameState, random) {
+        const isImpostor = gameState.yourRole?.type === 'impostor';
+
+        switch (gameState.phase) {
+            case 'action':
+                if (isImpostor && gameState.canKill && random() < 0.3) { // 30% chance to kill
+                    const potentialTargets = othersInRoom(gameState).filter((p: any) => p.role !== 'impostor');
+                    if (potentialTargets.length > 0) {
+                        return { type: 'kill', target: pick(potentialTargets, random).publicKey };
+                    }
+                }
+                if (!isImpostor && gameState.canReport) {
+                    return { type: 'report' };
+                }
+                if (gameState.tasks?.rooms.includes(gameState.yourRole.room)) {
+                    return { type: 'task' };
+                }
+                return { type: 'pass' };
+
+            case 'movement':
+                return { type: pick(MOVEMENTS, random) };
+
+            case 'voting':
+                if (gameState.accusedPlayer && random() < 0.7) { // 70% chance to vote for accused
+                    return { target: gameState.accusedPlayer, voteText: 'Suspicious behavior' };
+                }
+                return { target: null, voteText: 'Not enough evidence' };
+
+            default:
+                return { type: 'pass' };
+        }
+    }
+};
+
+/**
+ * Where each living crewmate was last seen or heard heading, as far as an
+ * impostor knows
+ */
+function lastKnownRooms(gameState: GameView): Map<string, number> {
+    const rooms = new Map<string, number>();
+    (gameState.observations || []).forEach((o: any) => {
+        if (o.type === 'room_occupants') o.players.forEach((p: string) => rooms.set(p, o.room));
+        if (o.type === 'player_left' || o.type === 'player_arrived') rooms.set(o.publicKey, o.to);
+    });
+    gameState.players
+        .filter((p: any) => p.room !== undefined)
+        .forEach((p: any) => rooms.set(p.publicKey, p.room));
+
+    const crew = new Set(gameState.players
+        .filter((p: any) => p.isAlive && p.role !== 'impostor')
+        .map((p: any) => p.publicKey));
+    Array.from(rooms.keys()).filter(p => !crew.has(p)).forEach(p => rooms.delete(p));
+    return rooms;
+}
+
+/**
+ * Kills only crewmates caught alone, heads for rooms where one is known to
+ * be alone, fakes tasks to blend in and votes with the crowd against crew
+ */
+function impostorResponse(gameState: GameView, random: Random): any {
+    const room = gameState.yourRole.room;
+    const partners = new Set(gameState.players
+        .filter((p: any) => p.role === 'impostor')
+        .map((p: any) => p.publicKey));
+
+    switch (gameState.phase) {
+        case 'action': {
+            const crew = othersInRoom(gameState).filter((p: any) => !partners.has(p.publicKey));
+            if (gameState.canKill && crew.length === 1) {
+                return { type: 'kill', target: crew[0].publicKey };
+            }
+            if (gameState.tasks?.rooms.includes(room)) {
+                return { type: 'task' };
+            }
+            return { type: 'pass' };
+        }
+
+        case 'movement': {
+            const known = lastKnownRooms(gameState);
+            const crewIn = (target: number) => Array.from(known.values()).filter(r => r === target).length;
+            const options = MOVEMENTS.map(type => ({ type, room: roomAfter(room, type, gameState.roomCount || 6) }));
+            const isolated = options.filter(o => crewIn(o.room) === 1);
+            if (isolated.length > 0) {
+                return { type: pick(isolated, random).type };
+            }
+            // Nobody known to be alone, go looking
+            return { type: pick(['clockwise', 'counterclockwise'], random) };
+        }
+
+        case 'voting': {
+            const accused = gameState.accusedPlayer;
+            if (accused && !partners.has(accused)) {
+                return { target: accused, voteText: 'Their story does not add up' };
+            }
+            // An open vote: pile onto whichever crewmate was accused most
+            const accusations = (gameState.accusations || [])
+                .map((a: any) => a.target)
+                .filter((target: string) => !partners.has(target));
+            if (!accused && accusations.length > 0) {
+                const counts = new Map<string, number>();
+                accusations.forEach((target: string) => counts.set(target, (counts.get(target) || 0) + 1));
+                const target = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+                return { target, voteText: 'I agree, they have been acting strange' };
+            }
+            return { target: null, voteText: 'Not enough evidence' };
+        }
+
+        default:
+            return { type: 'pass' };
+    }
+}
+
+function citeEvidence(suspicion: Suspicion): string {
+    return `${suspicion.publicKey}: ${suspicion.evidence.join('; ')}`;
+}
+
+/**
+ * Reports bodies, works through the tasks, keeps away from players it saw
+ * kill, and accuses and votes on the evidence it remembers: who was
+ * co-located with a victim, who it saw kill
+ */
+function crewmateResponse(gameState: GameView, random: Random): any {
+    const room = gameState.yourRole.room;
+    const suspicions = scoreSuspicion(gameState.observations || [], gameState);
+
+    switch (gameState.phase) {
+        case 'action': {
+            if (gameState.canReport) {
+                return { type: 'report' };
+            }
+            // A player already cleared by a vote needs a witnessed kill to be accused again
+            const tried = new Set((gameState.voteHistory || []).map((v: any) => v.accusedPlayer));
+            const suspect = suspicions.find(s => s.score >= WITNESSED_KILL ||
+                (s.score >= ACCUSE_THRESHOLD && !tried.has(s.publicKey)));
+            if (suspect) {
+                return { type: 'accuse', target: suspect.publicKey, accusationText: citeEvidence(suspect) };
+            }
+            if (gameState.tasks?.rooms.includes(room)) {
+                return { type: 'task' };
+            }
+            return { type: 'pass' };
+        }
+
+        case 'movement': {
+            const roomCount = gameState.roomCount || 6;
+            const killers = new Set(suspicions.filter(s => s.score >= WITNESSED_KILL).map(s => s.publicKey));
+            if (othersInRoom(gameState).some((p: any) => killers.has(p.publicKey))) {
+                return { type: pick(['clockwise', 'counterclockwise'], random) };
+            }
+
+            const taskRooms: number[] = gameState.tasks?.rooms || [];
+            if (taskRooms.includes(room)) {
+                return { type: 'stay' };
+            }
+            if (taskRooms.length === 0) {
+                return { type: pick(MOVEMENTS, random) };
+            }
+            // Take the shorter way round the ring to the closest unfinished task
+            const distance = (type: string) => Math.min(...taskRooms.map(target => type === 'clockwise'
+                ? (target - room + roomCount) % roomCount
+                : (room - target + roomCount) % roomCount));
+            return { type: distance('clockwise') <= distance('counterclockwise') ? 'clockwise' : 'counterclockwise' };
+        }
+
+        case 'voting': {
+            const accused = gameState.accusedPlayer;
+            const candidates = suspicions.filter(s => !accused || s.publicKey === accused);
+            const suspect = candidates.find(s => s.score >= VOTE_THRESHOLD);
+            if (suspect) {
+                return { target: suspect.publicKey, voteText: citeEvidence(suspect) };
+            }
+            return { target: null, voteText: 'Not enough evidence' };
+        }
+
+        default:
+            return { type: 'pass' };
+    }
+}
+
+/**
+ * Plays its role: the impostor policy or the crewmate policy above
+ */
+export const heuristicStrategy: BotStrategy = {
+    name: 'heuristic',
+    respond(gameState, random) {
+        return gameState.yourRole?.type === 'impostor'
+            ? impostorResponse(gameState, random)
+            : crewmateResponse(gameState, random);
+    }
+};
+
+export const BOT_STRATEGIES: Record<string, BotStrategy> = {
+    heuristic: heuristicStrategy,
+    random: randomStrategy
+};
+
+export const DEFAULT_BOT_STRATEGY = 'heuristic';
+
+/**
+ * What a bot seat playing `strategy` answers for a player view
+ */
+export function getBotResponse(gameState: GameView, strategy = DEFAULT_BOT_STRATEGY, random: Random = Math.random): any {
+    const bot = BOT_STRATEGIES[strategy];
+    if (!bot) {
+        throw new Error(`Unknown bot strategy ${strategy}, expected one of ${Object.keys(BOT_STRATEGIES).join(', ')}`);
+    }
+    return bot.respond(gameState, random);
+}
@@ -0,0 +1,110 @@
+import {GameView} from "./gameModule.ts";
+import {getKnownDeaths} from "./observations.ts";
+import {Observation} from "./types.ts";
+
+/**
+ * How much each kind of evidence counts towards a player being an impostor
+ */
+const WEIGHTS = {
+    witnessedKill: 10,
+    lastSeenWithVictim: 2,
+    nearBody: 1,
+    accusedYou: 3,
+    votedAgainstYou: 1,
+    accused: 1,
+    reportedBody: -1
+};
+
+/**
+ * One opponent as the player sees them
+ */
+export interface Suspicion {
+    publicKey: string;
+    score: number;  // Sum of the weights of the evidence, higher is more suspicious
+    evidence: string[];
+}
+
+/**
+ * Score every living opponent from the observations a player remembers.
+ * Impostors skip their partners, and only a crewmate knows an accusation
+ * against them is false.
+ */
+export function scoreSuspicion(observations: Observation[], gameState: GameView): Suspicion[] {
+    const self = gameState.yourPublicKey;
+    const isImpostor = gameState.yourRole?.type === 'impostor';
+    const dead = getKnownDeaths(observations);
+    const suspicions = new Map<string, Suspicion>(gameState.players
+        .filter((p: any) => p.publicKey !== self && p.isAlive && !dead.has(p.publicKey) && p.role !== 'impostor')
+        .map((p: any) => [p.publicKey, { publicKey: p.publicKey, score: 0, evidence: [] }]));
+    const add = (publicKey: string, weight: number, evidence: string) => {
+        const suspicion = suspicions.get(publicKey);
+        if (suspicion) {
+            suspicion.score += weight;
+            suspicion.evidence.push(evidence);
+        }
+    };
+
+    // Who each player was last seen with, as of when their body was found
+    const lastSeen = new Map<string, { round: number; room: number; players: string[] }>();
+    const bodiesSeen = new Set<string>();  // Bodies stay put, only the first sighting counts
+    observations.forEach(o => {
+        switch (o.type) {
+            case 'room_occupants':
+                o.players.forEach(p => lastSeen.set(p, {
+                    round: o.round, room: o.room, players: o.players.filter(other => other !== p)
+                }));
+                o.bodies.filter(victim => !bodiesSeen.has(victim)).forEach(victim => {
+                    bodiesSeen.add(victim);
+                    o.players.forEach(p => add(p, WEIGHTS.nearBody, `round ${o.round}: in room ${o.room} with ${victim}'s body`));
+                });
+                break;
+
+            case 'witnessed_kill':
+                add(o.killer, WEIGHTS.witnessedKill, `round ${o.round}: killed ${o.victim} in room ${o.room}`);
+                break;
+
+            case 'body_found': {
+                // Nobody saw the kill, but whoever stayed behind with the victim had the chance
+                const seen = lastSeen.get(o.victim);
+                if (seen?.room === o.room) {
+                    seen.players.forEach(p => add(p, WEIGHTS.lastSeenWithVictim, `round ${seen.round}: last seen with ${o.victim} in room ${o.room}`));
+                }
+                break;
+            }
+
+            case 'meeting_called':
+                if (o.reporter && o.reportedBody) {
+                    add(o.reporter, WEIGHTS.reportedBody, `round ${o.round}: reported ${o.reportedBody}'s body`);
+                }
+                o.accusations.forEach(a => {
+                    if (a.target === self) {
+                        if (!isImpostor) add(a.accuser, WEIGHTS.accusedYou, `round ${o.round}: falsely accused you`);
+                    } else {
+                        add(a.target, WEIGHTS.accused, `round ${o.round}: accused by ${a.accuser}${a.accusationText ? ` ("${a.accusationText}")` : ''}`);
+                    }
+                });
+                break;
+
+            case 'vote_tallied':
+                if (!isImpostor) {
+                    o.record.votes
+                        .filter(v => v.target === self)
+                        .forEach(v => add(v.voter, WEIGHTS.votedAgainstYou, `round ${o.round}: voted to eject you`));
+                }
+                break;
+        }
+    });
+
+    return Array.from(suspicions.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * The suspicion scores as a table for the prompt, most suspicious first
+ */
+export function formatSuspicionTable(suspicions: Suspicion[]): string {
+    if (suspicions.length === 0) {
+        return '';
+    }
+    const rows = suspicions.map(s => `| ${s.publicKey} | ${s.score} | ${s.evidence.join('; ') || 'nothing yet'} |`);
+    return ['| Player | Suspicion | Evidence |', '| --- | --- | --- |', ...rows].join('\n');
+}
@@ -0,0 +1,561 @@
+import {
+    Accusation,
+    EngineResult,
+    GameEvent,
+    GameRules,
+    GameState,
+    Observation,
+    PlayerInput,
+    PlayerState
+} from "./types.ts";
+import { nextRandom, seedRandom } from "./utils/random.ts";
+import { getKnownDeaths } from "./observations.ts";
+
+export const DEFAULT_RULES: GameRules = {
+    roomCount: 6,
+    impostorCount: 2,
+    killCooldown: 0,
+    taskCount: 6
+};
+
+/**
+ * Pure Among Us rules. Every function takes a GameState and returns a new one
+ * along with the events it produced; timers, networking and bots live in
+ * AmongUsManager. All randomness comes from the seedable RNG stored in the
+ * state, so the same seed and inputs always replay the same game.
+ */
+
+function cloneState(state: GameState): GameState {
+    return {
+        ...state,
+        players: new Map(Array.from(state.players, ([publicKey, p]) => [publicKey, { ...p, role: { ...p.role } }])),
+        actionOrder: [...state.actionOrder],
+        accusations: state.accusations && [...state.accusations],
+        votingResults: state.votingResults && new Map(state.votingResults),
+        voteHistory: [...state.voteHistory],
+        tasks: state.tasks.map(t => ({ ...t })),
+        reportedBodies: [...state.reportedBodies]
+    };
+}
+
+function random(state: GameState): number {
+    const { state: rngState, value } = nextRandom(state.rngState);
+    state.rngState = rngState;
+    return value;
+}
+
+function shuffle<T>(state: GameState, items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random(state) * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+}
+
+function alivePlayers(state: GameState): PlayerState[] {
+    return Array.from(state.players.values()).filter(p => p.isAlive);
+}
+
+/**
+ * Create a new game, assign roles and start the first round
+ */
+export function createGame(
+    playerKeys: string[],
+    seed: number | string,
+    rules: GameRules = DEFAULT_RULES
+): EngineResult {
+    if (new Set(playerKeys).size !== playerKeys.length) {
+        throw new Error('Player keys must be unique');
+    }
+    if (playerKeys.length <= rules.impostorCount) {
+        throw new Error(`At least ${rules.impostorCount + 1} players are required`);
+    }
+
+    const state: GameState = {
+        players: new Map(),
+        rules: { ...rules },
+        phase: 'action',
+        currentRound: 1,
+        actionOrder: [],
+        voteHistory: [],
+        tasks: [],
+        reportedBodies: [],
+        isActive: true,
+        rngState: seedRandom(seed)
+    };
+    const events: GameEvent[] = [];
+
+    // Assign impostors first in shuffled order, the rest are crew
+    shuffle(state, playerKeys).forEach((publicKey, index) => {
+        state.players.set(publicKey, {
+            publicKey,
+            role: {
+                type: index < rules.impostorCount ? 'impostor' : 'crewmate',
+                room: Math.floor(random(state) * rules.roomCount)
+            },
+            isAlive: true
+        });
+    });
+
+    state.tasks = Array.from({ length: rules.taskCount }, (_, id) => ({
+        id,
+        room: Math.floor(random(state) * rules.roomCount)
+    }));
+
+    events.push({
+        type: 'roles_assigned',
+        players: Array.from(state.players.values()).map(p => ({
+            publicKey: p.publicKey,
+            role: { ...p.role }
+        }))
+    });
+
+    startRound(state, events);
+    return { state, events };
+}
+
+/**
+ * Resolve the current phase with the inputs collected for it and move the game
+ * to its next phase. Invalid inputs are dropped and reported as events; a
+ * player with no valid input passes or stays.
+ */
+export function advancePhase(current: GameState, inputs: PlayerInput[]): EngineResult {
+    const state = cloneState(current);
+    const events: GameEvent[] = [];
+
+    if (!state.isActive) {
+        return { state, events };
+    }
+
+    for (const input of inputs) {
+        const reason = validateInput(state, input);
+        if (reason) {
+            events.push({ type: 'input_rejected', publicKey: input.publicKey, phase: state.phase, reason });
+            continue;
+        }
+        recordInput(state, input);
+    }
+
+    switch (state.phase) {
+        case 'action':
+            setPhase(state, events, 'movement');
+            break;
+        case 'movement':
+            resolveRound(state, events);
+            break;
+        case 'voting':
+            resolveVotes(state, events);
+            break;
+    }
+
+    return { state, events };
+}
+
+/**
+ * Returns the reason an input is not allowed, or null if it is valid
+ */
+export function validateInput(state: GameState, input: PlayerInput): string | null {
+    const player = state.players.get(input.publicKey);
+    if (!player) return 'Unknown player';
+    if (!player.isAlive) return 'Player is dead';
+    if (input.phase !== state.phase) return `Input is for ${input.phase} but game is in ${state.phase}`;
+
+    switch (input.phase) {
+        case 'action': {
+            const { type, target } = input.action;
+            // Impostors may fake tasks, it just doesn't complete anything
+            if (type === 'pass' || type === 'task') return null;
+            if (type === 'report') {
+                const bodies = getReportableBodies(state, player);
+                if (target ? !bodies.includes(target) : bodies.length === 0) return 'No unreported body in your room';
+                return null;
+            }
+            if (type !== 'kill' && type !== 'accuse') return `Unknown action ${type}`;
+
+            const targetPlayer = target ? state.players.get(target) : undefined;
+            if (!targetPlayer || !targetPlayer.isAlive) return 'Target not found or not alive';
+            if (targetPlayer.publicKey === player.publicKey) return 'Cannot target yourself';
+
+            if (type === 'kill') {
+                if (player.role.type !== 'impostor') return 'Only impostors can kill';
+                if (targetPlayer.role.type === 'impostor') return 'Cannot kill another impostor';
+                if (targetPlayer.role.room !== player.role.room) return 'Target is not in the same room';
+                if (!canKill(state, player)) return 'Kill is on cooldown';
+            }
+            return null;
+        }
+
+        case 'movement':
+            return ['stay', 'clockwise', 'counterclockwise'].includes(input.movement.type)
+                ? null
+                : `Unknown movement ${input.movement.type}`;
+
+        case 'voting': {
+            const { target } = input.vote;
+            if (target === null) return null;
+            return state.players.get(target)?.isAlive ? null : 'Vote target not found or not alive';
+        }
+    }
+}
+
+/**
+ * Turn a player's raw response into an input for the current phase, or null
+ * if it doesn't have the shape of one. Rule checks are left to validateInput.
+ */
+export function toPlayerInput(state: GameState, publicKey: string, response: any): PlayerInput | null {
+    switch (state.phase) {
+        case 'action':
+            return response?.type ? { publicKey, phase: 'action', action: response } : null;
+        case 'movement':
+            return response?.type ? { publicKey, phase: 'movement', movement: response } : null;
+        case 'voting':
+            return response?.target !== undefined
+                ? { publicKey, phase: 'voting', vote: { target: response.target || null, voteText: response.voteText || '' } }
+                : null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Whether an impostor's kill cooldown has expired this round
+ */
+export function canKill(state: GameState, player: PlayerState): boolean {
+    if (player.role.type !== 'impostor') return false;
+    if (player.lastKillRound === undefined) return true;
+    return state.currentRound - player.lastKillRound > state.rules.killCooldown;
+}
+
+/**
+ * Bodies in the player's room that nobody has reported yet. Ejected players leave no body.
+ */
+export function getReportableBodies(state: GameState, player: PlayerState): string[] {
+    const ejected = new Set(state.voteHistory.map(v => v.ejected));
+    return Array.from(state.players.values())
+        .filter(p => !p.isAlive && p.role.room === player.role.room)
+        .filter(p => !ejected.has(p.publicKey) && !state.reportedBodies.includes(p.publicKey))
+        .map(p => p.publicKey);
+}
+
+function recordInput(state: GameState, input: PlayerInput): void {
+    const player = state.players.get(input.publicKey)!;
+    switch (input.phase) {
+        case 'action':
+            player.lastAction = input.action;
+            break;
+        case 'movement':
+            player.lastMovement = input.movement;
+            break;
+        case 'voting':
+            player.lastVote = input.vote;
+            state.votingResults?.set(input.publicKey, input.vote.target || 'skip');
+            break;
+    }
+}
+
+function setPhase(state: GameState, events: GameEvent[], phase: GameState['phase']): void {
+    state.phase = phase;
+    events.push({ type: 'phase_started', phase, round: state.currentRound });
+}
+
+function startRound(state: GameState, events: GameEvent[]): void {
+    state.actionOrder = shuffle(state, alivePlayers(state).map(p => p.publicKey));
+    events.push({ type: 'round_started', round: state.currentRound, actionOrder: [...state.actionOrder] });
+    setPhase(state, events, 'action');
+}
+
+function nextRound(state: GameState, events: GameEvent[]): void {
+    state.currentRound++;
+    startRound(state, events);
+}
+
+/**
+ * Kills resolve first (in action order, using rooms from before movement),
+ * then surviving crewmates complete tasks and may report bodies, then living
+ * players move around the ring, then a report or accusations from survivors
+ * may call a meeting.
+ */
+function resolveRound(state: GameState, events: GameEvent[]): void {
+    for (const publicKey of state.actionOrder) {
+        const player = state.players.get(publicKey);
+        const action = player?.lastAction;
+        if (!player?.isAlive || action?.type !== 'kill' || !action.target) continue;
+
+        const target = state.players.get(action.target);
+        // A second impostor going for the same victim finds them already dead
+        if (!target?.isAlive) continue;
+
+        target.isAlive = false;
+        player.lastKillRound = state.currentRound;
+        events.push({ type: 'kill', killer: publicKey, victim: target.publicKey, room: target.role.room });
+    }
+
+    completeTasks(state, events);
+    const report = collectReport(state);
+
+    const { roomCount } = state.rules;
+    for (const player of alivePlayers(state)) {
+        const from = player.role.room;
+        if (player.lastMovement?.type === 'clockwise') {
+            player.role.room = (from + 1) % roomCount;
+        } else if (player.lastMovement?.type === 'counterclockwise') {
+            player.role.room = (from + roomCount - 1) % roomCount;
+        }
+        if (player.role.room !== from) {
+            events.push({ type: 'movement', publicKey: player.publicKey, from, to: player.role.room });
+        }
+    }
+
+    // Accusations are made during the action phase and survive movement
+    const accusations = collectAccusations(state);
+
+    for (const player of state.players.values()) {
+        player.lastAction = undefined;
+        player.lastMovement = undefined;
+    }
+
+    if (endGameIfWon(state, events)) return;
+
+    // A report or an accusation calls an emergency meeting before the next round
+    const accusedPlayer = selectAccusedPlayer(accusations);
+    if (accusedPlayer || report) {
+        state.accusedPlayer = accusedPlayer;
+        state.reportedBody = report?.body;
+        state.accusations = accusations;
+        state.votingResults = new Map();
+        if (report) {
+            state.reportedBodies.push(report.body);
+        }
+        events.push({
+            type: 'meeting_called',
+            accusedPlayer,
+            reportedBody: report?.body,
+            reporter: report?.reporter,
+            accusations
+        });
+        setPhase(state, events, 'voting');
+        return;
+    }
+
+    nextRound(state, events);
+}
+
+/**
+ * Each surviving crewmate working on a task completes one unfinished task in
+ * their room, in action order
+ */
+function completeTasks(state: GameState, events: GameEvent[]): void {
+    for (const publicKey of state.actionOrder) {
+        const player = state.players.get(publicKey);
+        if (!player?.isAlive || player.role.type !== 'crewmate' || player.lastAction?.type !== 'task') continue;
+
+        const task = state.tasks.find(t => t.room === player.role.room && !t.completedBy);
+        if (!task) continue;
+
+        task.completedBy = publicKey;
+        events.push({ type: 'task_completed', publicKey, taskId: task.id, room: task.room });
+    }
+}
+
+/**
+ * The first report, in action order, from a player who survived the round.
+ * A report without a target picks any unreported body in the room, including
+ * bodies from kills this round.
+ */
+function collectReport(state: GameState): { reporter: string; body: string } | undefined {
+    for (const publicKey of state.actionOrder) {
+        const player = state.players.get(publicKey);
+        const action = player?.lastAction;
+        if (!player?.isAlive || action?.type !== 'report') continue;
+
+        const bodies = getReportableBodies(state, player);
+        const body = action.target ? bodies.find(b => b === action.target) : bodies[0];
+        if (body) {
+            return { reporter: publicKey, body };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Collect the accusations made by players still alive after kills were resolved.
+ * Accusations against dead players and from players who did not survive the
+ * round are dropped.
+ */
+function collectAccusations(state: GameState): Accusation[] {
+    const accusations: Accusation[] = [];
+
+    for (const publicKey of state.actionOrder) {
+        const player = state.players.get(publicKey);
+        const action = player?.lastAction;
+        if (!player?.isAlive || action?.type !== 'accuse' || !action.target) continue;
+        if (!state.players.get(action.target)?.isAlive) continue;
+
+        accusations.push({
+            accuser: publicKey,
+            target: action.target,
+            accusationText: action.accusationText
+        });
+    }
+
+    return accusations;
+}
+
+/**
+ * Pick the player to put on trial. The most accused player is chosen;
+ * ties go to whichever tied player was accused first in action order.
+ */
+export function selectAccusedPlayer(accusations: Accusation[]): string | undefined {
+    const counts = new Map<string, number>();
+    accusations.forEach(({ target }) => {
+        counts.set(target, (counts.get(target) || 0) + 1);
+    });
+
+    let accused: string | undefined;
+    let maxAccusations = 0;
+    // Map iteration follows insertion order, i.e. first accusation in action order
+    counts.forEach((count, target) => {
+        if (count > maxAccusations) {
+            maxAccusations = count;
+            accused = target;
+        }
+    });
+
+    return accused;
+}
+
+/**
+ * Count the votes from the meeting. A player is ejected only with strictly
+ * more votes than skip and than every other player; a tie ejects nobody.
+ */
+export function tallyVotes(votingResults: Map<string, string>): string | null {
+    const votes = new Map<string, number>([['skip', 0]]);
+    votingResults.forEach((target) => {
+        votes.set(target, (votes.get(target) || 0) + 1);
+    });
+
+    let maxVotes = -1;
+    let ejected: string | null = null;
+    let tied = false;
+    votes.forEach((count, target) => {
+        if (count > maxVotes) {
+            maxVotes = count;
+            ejected = target;
+            tied = false;
+        } else if (count === maxVotes) {
+            tied = true;
+        }
+    });
+
+    return tied || ejected === 'skip' ? null : ejected;
+}
+
+function resolveVotes(state: GameState, events: GameEvent[]): void {
+    const ejected = tallyVotes(state.votingResults || new Map());
+
+    const record = {
+        round: state.currentRound,
+        accusedPlayer: state.accusedPlayer,
+        reportedBody: state.reportedBody,
+        votes: Array.from(state.players.values())
+            .filter(p => p.lastVote)
+            .map(p => ({ voter: p.publicKey, ...p.lastVote! })),
+        ejected
+    };
+    state.voteHistory.push(record);
+    events.push({ type: 'vote_tallied', record });
+
+    if (ejected) {
+        const player = state.players.get(ejected)!;
+        player.isAlive = false;
+        events.push({ type: 'ejected', publicKey: ejected, role: player.role.type });
+    }
+
+    // Clear the meeting before the next round starts
+    for (const player of state.players.values()) {
+        player.lastVote = undefined;
+    }
+    state.accusedPlayer = undefined;
+    state.reportedBody = undefined;
+    state.accusations = undefined;
+    state.votingResults = undefined;
+
+    if (endGameIfWon(state, events)) return;
+    nextRound(state, events);
+}
+
+/**
+ * Returns the winning side, if either side has won. The crew wins by ejecting
+ * every impostor or finishing every task, the impostors by killing the crew.
+ */
+export function checkWinCondition(state: GameState): GameState['winner'] {
+    const alive = alivePlayers(state);
+    const aliveImpostors = alive.filter(p => p.role.type === 'impostor').length;
+    const aliveCrew = alive.length - aliveImpostors;
+
+    if (aliveImpostors === 0) return 'crew';
+    if (aliveCrew === 0) return 'impostors';
+    if (state.tasks.length > 0 && state.tasks.every(t => t.completedBy)) return 'crew';
+    return undefined;
+}
+
+function endGameIfWon(state: GameState, events: GameEvent[]): boolean {
+    const winner = checkWinCondition(state);
+    if (!winner) return false;
+
+    state.isActive = false;
+    state.winner = winner;
+    setPhase(state, events, 'complete');
+    events.push({ type: 'game_over', winner });
+    return true;
+}
+
+/**
+ * The game state as sent to a single player. Players only see who is in their
+ * own room; anyone else is listed without a room, and counts as alive until
+ * the player has seen the body, witnessed the kill or watched them get
+ * ejected. Impostors also see who the other impostors are.
+ */
+export function getPlayerView(state: GameState, publicKey: string, observations: Observation[] = []): any {
+    const player = state.players.get(publicKey);
+    const isImpostor = player?.role.type === 'impostor';
+    const knownDeaths = getKnownDeaths(observations);
+    const ejected = new Set(state.voteHistory.map(v => v.ejected));
+    const reportableBodies = player?.isAlive ? getReportableBodies(state, player) : [];
+
+    return {
+        game: 'amongus',
+        phase: state.phase,
+        currentRound: state.currentRound,
+        accusedPlayer: state.accusedPlayer,
+        reportedBody: state.reportedBody,
+        accusations: state.accusations,
+        voteHistory: state.voteHistory,
+        roomCount: state.rules.roomCount,
+        // Task progress is public, like the task bar; only which rooms still have work is listed
+        tasks: {
+            total: state.tasks.length,
+            completed: state.tasks.filter(t => t.completedBy).length,
+            rooms: Array.from(new Set(state.tasks.filter(t => !t.completedBy).map(t => t.room))).sort((a, b) => a - b)
+        },
+        yourPublicKey: publicKey,
+        yourRole: player?.role,
+        canKill: isImpostor && player.isAlive ? canKill(state, player) : undefined,
+        canReport: reportableBodies.length > 0,
+        reportableBodies,
+        players: Array.from(state.players.values()).map(p => {
+            // Living occupants and bodies (not ejected players) of the viewer's room
+            const visible = p.publicKey === publicKey ||
+                (p.role.room === player?.role.room && (p.isAlive || !ejected.has(p.publicKey)));
+            return {
+                publicKey: p.publicKey,
+                isAlive: visible ? p.isAlive : !knownDeaths.has(p.publicKey),
+                room: visible ? p.role.room : undefined,
+                role: isImpostor ? p.role.type : undefined
+            };
+        }),
+        observations,
+        winner: state.winner
+    };
+}
@@ -0,0 +1,684 @@
+import {randomUUID} from "crypto";
+import {EventEmitter} from "events";
+import {FxnClient} from "./fxnClient.ts";
+import {advancePhase, createGame} from "./amongUsEngine.ts";
+import {AmongUsMatch} from "./amongUsModule.ts";
+import {GameEvent, GameState, ObservationLogs, PlayerInput} from "./types.ts";
+import {getBotStrategy, getGameRules, MatchConfig} from "./matchConfig.ts";
+import {buildMatchRecord, MatchHistory, MatchRecord} from "./matchHistory.ts";
+import {deserializeGameState, GameCheckpointStore, serializeGameState} from "./gameCheckpoint.ts";
+import {buildLeaderboard, buildSpectatorState, LeaderboardEntry, SpectatorState} from "./spectator.ts";
+import {getRewardRecipients, Payout, RewardDistributor} from "./rewards.ts";
+import {observeEvents} from "./observations.ts";
+import {buildReplay, Replay, ReplayLog, ReplayRecord} from "./replayLog.ts";
+import {GameModule, GameView, ReplaySummary} from "./gameModule.ts";
+import {createEnvelope, DecisionResult, Envelope, PlayerResponse, SignedMessage} from "./protocol.ts";
+import {buildPlayerStats, PlayerStats} from "./ratings.ts";
+import {
+    createTournament,
+    findTable,
+    getNextTable,
+    recordTableResult,
+    seatTable,
+    Tournament,
+    TournamentStore
+} from "./tournament.ts";
+import {AfkState, createAfkState, getPresence, PresenceChange, recordPhase} from "./afk.ts";
+
+type MatchStatus = 'lobby' | 'countdown' | 'playing' | 'finished' | 'stopped';
+
+/**
+ * Emits 'update' with the latest SpectatorState whenever the match changes.
+ * Views, input checks and bot moves go through the game module players load,
+ * so host and players can't disagree on them.
+ */
+export class AmongUsManager extends EventEmitter {
+    private gameState: GameState;
+    private status: MatchStatus = 'lobby';
+    private matchId: string;
+    private seed: number;
+    private startedAt: number;
+    private phaseDeadline: number;
+    private lifecycleDeadline: number;  // When the countdown or next-match delay ends
+    private matchEvents: Array<GameEvent & { round: number }> = [];
+    private observations: ObservationLogs = {};  // What each player has witnessed this match
+    private invalidDecisions: Record<string, number> = {};  // publicKey -> decisions rejected this match
+    private afk: AfkState = createAfkState();  // Missed phases and AFK seats this match
+    private answered = new Set<string>();  // Real players who answered the current phase, valid or not
+    private phaseTimer: NodeJS.Timeout | null = null;
+    private lifecycleTimer: NodeJS.Timeout | null = null;  // Lobby polling, countdown and next-match delay
+    private pendingInputs = new Map<string, PlayerInput>();  // publicKey -> input for the current phase
+    // Async submission: publicKey -> the update each player must answer through /moves. The phase
+    // doesn't wait for AFK players, but takes their moves
+    private awaitedMoves = new Map<string, { envelope: Envelope; submitted: boolean; afk: boolean }>();
+    private tournament: Tournament | null = null;  // The latest tournament, its tables are played before open matches
+
+    constructor(
+        private game: GameModule<AmongUsMatch, PlayerInput>,
+        private fxnClient: FxnClient,
+        private config: MatchConfig,
+        private matchHistory: MatchHistory,
+        private checkpoints: GameCheckpointStore,
+        private rewards: RewardDistributor,
+        private replays: ReplayLog,
+        private tournaments: TournamentStore
+    ) {
+        super();
+        this.schedule(() => this.resumeOrOpenLobby(), 0);
+    }
+
+    /**
+     * Pick up a match interrupted by a host restart, or open a fresh lobby
+     */
+    private async resumeOrOpenLobby(): Promise<void> {
+        this.tournament = await this.tournaments.latest();
+        const checkpoint = await this.checkpoints.load();
+        if (!checkpoint) {
+            await this.openLobby();
+            return;
+        }
+
+        this.status = 'playing';
+        this.matchId = checkpoint.matchId;
+        this.seed = checkpoint.seed;
+        this.startedAt = checkpoint.startedAt;
+        this.matchEvents = checkpoint.matchEvents;
+        this.observations = checkpoint.observations;
+        this.invalidDecisions = checkpoint.invalidDecisions;
+        this.afk = checkpoint.afk;
+        this.gameState = deserializeGameState(checkpoint.state);
+        console.log(`Resuming match ${this.matchId} at round ${this.gameState.currentRound} ${this.gameState.phase}`);
+        this.logReplay({ type: 'match_resumed' });
+
+        await this.announce({
+            event: 'match_resumed',
+            round: this.gameState.currentRound,
+            phase: this.gameState.phase
+        });
+        await this.startPhase(checkpoint.phaseDeadline);
+    }
+
+    private async saveCheckpoint(): Promise<void> {
+        try {
+            await this.checkpoints.save({
+                matchId: this.matchId,
+                seed: this.seed,
+                startedAt: this.startedAt,
+                phaseDeadline: this.phaseDeadline,
+                state: serializeGameState(this.gameState),
+                matchEvents: this.matchEvents,
+                observations: this.observations,
+                invalidDecisions: this.invalidDecisions,
+                afk: this.afk
+            });
+        } catch (error) {
+            // A missed checkpoint only matters if the host crashes before the next one
+            console.error(`Failed to checkpoint match ${this.matchId}:`, error);
+        }
+    }
+
+    public getSpectatorState(): SpectatorState {
+        const playing = this.status === 'playing' || this.status === 'finished';
+        return buildSpectatorState({
+            matchId: this.matchId,
+            status: this.status,
+            deadline: this.status === 'playing' ? this.phaseDeadline : this.lifecycleDeadline,
+            state: playing ? this.gameState : undefined,
+            events: playing ? this.matchEvents : [],
+            presence: playing ? this.afk.presence : {}
+        });
+    }
+
+    /**
+     * Leaderboard of every finished match with the rewards paid
+     */
+    public async getWinners(): Promise<LeaderboardEntry[]> {
+        return buildLeaderboard(await this.matchHistory.list(), await this.rewards.listPayouts());
+    }
+
+    /**
+     * Stats and rating of every real player, best rated first
+     */
+    public async getPlayerStats(): Promise<PlayerStats[]> {
+        return buildPlayerStats(await this.matchHistory.list());
+    }
+
+    public getTournament(): Tournament | null {
+        return this.tournament;
+    }
+
+    /**
+     * Draw a tournament from the given players, or every active subscriber,
+     * seeded by rating. Its tables take the following matches until it has
+     * champions. Throws if one is still running or the options don't work.
+     */
+    public async startTournament(options: { players?: string[]; tableSize?: number } = {}): Promise<Tournament> {
+        if (this.tournament && !this.tournament.finishedAt) {
+            throw new Error(`Tournament ${this.tournament.tournamentId} is still running`);
+        }
+        const tableSize = options.tableSize ?? this.config.maxPlayers;
+        if (tableSize > this.config.maxPlayers) {
+            throw new Error(`tableSize must be at most maxPlayers (${this.config.maxPlayers})`);
+        }
+
+        const players = options.players ?? await this.getActiveSubscribers(Infinity);
+        const tournament = createTournament(players, await this.getPlayerStats(), tableSize);
+        await this.tournaments.save(tournament);
+        this.tournament = tournament;
+        console.log(`Tournament ${tournament.tournamentId} drawn:`, tournament.rounds[0].tables.map(t => t.players));
+        return tournament;
+    }
+
+    /**
+     * Finished matches that can be replayed, most recent first
+     */
+    public async listReplays(): Promise<ReplaySummary[]> {
+        return (await this.matchHistory.list()).map(({ matchId, endedAt, winner, rounds }) => ({ matchId, endedAt, winner, rounds }));
+    }
+
+    /**
+     * A match's replay, including every player's hidden view. Null while the
+     * match is still being played so nobody can peek at it.
+     */
+    public async getReplay(matchId: string): Promise<Replay | null> {
+        if (matchId === this.matchId && this.status === 'playing') {
+            return null;
+        }
+
+        await this.replays.flush();
+        const entries = await this.replays.load(matchId);
+        return entries && buildReplay(matchId, entries);
+    }
+
+    private logReplay(record: ReplayRecord): void {
+        this.replays.append(
+            { matchId: this.matchId, round: this.gameState.currentRound, phase: this.gameState.phase },
+            record
+        );
+    }
+
+    private notifySpectators(): void {
+        this.emit('update', this.getSpectatorState());
+    }
+
+    /**
+     * Stop all timers; the current match is abandoned
+     */
+    public stop(): void {
+        this.status = 'stopped';
+        this.clearTimers();
+    }
+
+    private clearTimers(): void {
+        if (this.phaseTimer) {
+            clearTimeout(this.phaseTimer);
+            this.phaseTimer = null;
+        }
+        if (this.lifecycleTimer) {
+            clearTimeout(this.lifecycleTimer);
+            this.lifecycleTimer = null;
+        }
+    }
+
+    private schedule(callback: () => Promise<void>, delay: number): void {
+        if (this.status === 'stopped') return;
+        this.lifecycleTimer = setTimeout(async () => {
+            try {
+                await callback();
+            } catch (error) {
+                // Never let one broken match take the host down, go back to the lobby
+                console.error('Among Us lifecycle error, reopening lobby:', error);
+                this.clearTimers();
+                await this.abandonMatch();
+                this.schedule(() => this.openLobby(), this.config.lobbyPollInterval);
+            }
+        }, delay);
+    }
+
+    /**
+     * Drop the checkpoint of a match that broke, so a restart doesn't resume it
+     */
+    private async abandonMatch(): Promise<void> {
+        try {
+            await this.checkpoints.clear();
+        } catch (error) {
+            console.error(`Failed to clear the checkpoint of match ${this.matchId}:`, error);
+        }
+    }
+
+    private async getActiveSubscribers(limit = this.config.maxPlayers): Promise<string[]> {
+        const subscribers = await this.fxnClient.getSubscribers();
+        return subscribers
+            .filter(sub => sub.status === 'active')
+            .map(sub => sub.subscriber.toString())
+            .slice(0, limit);
+    }
+
+    private async announce(announcement: Record<string, any>): Promise<void> {
+        const subscribers = await this.fxnClient.getSubscribers();
+        await this.fxnClient.broadcastToSubscribers(
+            { type: 'announcement', matchId: this.matchId, announcement },
+            subscribers
+        );
+    }
+
+    /**
+     * Send payouts left over from earlier matches or a previous run, without holding up the lobby
+     */
+    private retryPayouts(): void {
+        this.rewards.processPending().catch(error => {
+            console.error('Failed to process pending payouts:', error);
+        });
+    }
+
+    /**
+     * Wait until enough subscribers are active, then count down to the match
+     */
+    private async openLobby(): Promise<void> {
+        if (this.status === 'stopped') return;
+        this.status = 'lobby';
+        this.lifecycleDeadline = undefined;
+        this.retryPayouts();
+
+        const players = await this.getActiveSubscribers();
+        if (players.length < this.config.minSubscribers) {
+            console.log(`Lobby waiting for players: ${players.length}/${this.config.minSubscribers}`);
+            this.notifySpectators();
+            this.schedule(() => this.openLobby(), this.config.lobbyPollInterval);
+            return;
+        }
+
+        this.status = 'countdown';
+        this.matchId = randomUUID();
+        const startsAt = Date.now() + this.config.startCountdown;
+        this.lifecycleDeadline = startsAt;
+        console.log(`Match ${this.matchId} starting in ${this.config.startCountdown}ms with`, players);
+        this.notifySpectators();
+        await this.announce({ event: 'match_starting', startsAt, players });
+
+        this.schedule(() => this.startGame(), this.config.startCountdown);
+    }
+
+    private async startGame(): Promise<void> {
+        let activePlayers = await this.getActiveSubscribers();
+
+        // Players may have left during the countdown
+        if (activePlayers.length < this.config.minSubscribers) {
+            console.log('Not enough players left after countdown, back to lobby');
+            await this.openLobby();
+            return;
+        }
+
+        // A tournament table plays whoever of its players is here. It can't
+        // wait for players from other tables, so bots always fill its seats.
+        const table = this.tournament && getNextTable(this.tournament);
+        if (table) {
+            seatTable(table, this.matchId, await this.getActiveSubscribers(Infinity));
+            activePlayers = [...table.seated];
+            if (activePlayers.length === 0) {
+                console.log(`Nobody showed up for tournament table ${table.players.join(', ')}, skipping it`);
+                await this.recordTournamentResult(this.matchId, null);
+                await this.openLobby();
+                return;
+            }
+            await this.tournaments.save(this.tournament);
+        }
+
+        // Add bot players if needed
+        if (this.config.fillWithBots || table) {
+            while (activePlayers.length < this.config.minPlayers) {
+                activePlayers.push(`bot-${activePlayers.length + 1}`);
+            }
+        }
+
+        if (activePlayers.length < this.config.minPlayers) {
+            console.log(`Not enough players to start: ${activePlayers.length}/${this.config.minPlayers}`);
+            await this.openLobby();
+            return;
+        }
+
+        this.status = 'playing';
+        this.seed = Date.now();
+        this.startedAt = Date.now();
+        console.log(`Starting match ${this.matchId} with seed ${this.seed}`);
+        const { state, events } = createGame(
+            activePlayers,
+            this.seed,
+            getGameRules(this.config, activePlayers.length)
+        );
+        this.gameState = state;
+        this.matchEvents = [];
+        this.invalidDecisions = {};
+        this.afk = createAfkState();
+        this.recordEvents(events);
+        this.observations = observeEvents({}, undefined, state, events);
+        this.replays.append(
+            { matchId: this.matchId, round: state.currentRound, phase: 'setup' },
+            { type: 'match_started', seed: this.seed, rules: state.rules, players: activePlayers, events }
+        );
+
+        await this.startPhase();
+    }
+
+    private recordEvents(events: GameEvent[]): void {
+        console.log('Game events:', events);
+        events.forEach(event => this.matchEvents.push({ ...event, round: this.gameState.currentRound }));
+    }
+
+    private getPhaseDuration(): number {
+        switch (this.gameState.phase) {
+            case 'action':
+                return this.config.actionDuration;
+            case 'movement':
+                return this.config.movementDuration;
+            case 'voting':
+                return this.config.votingDuration;
+            default:
+                return 0;
+        }
+    }
+
+    /**
+     * Broadcast the current phase and schedule its end. A resumed match passes
+     * the deadline it had before the restart.
+     */
+    private async startPhase(deadline?: number): Promise<void> {
+        // Clear previous timers
+        if (this.phaseTimer) {
+            clearTimeout(this.phaseTimer);
+            this.phaseTimer = null;
+        }
+
+        this.pendingInputs = new Map();
+        this.awaitedMoves = new Map();
+        this.answered = new Set();
+        if (this.gameState.isActive) {
+            this.phaseDeadline = deadline ?? Date.now() + this.getPhaseDuration();
+            await this.saveCheckpoint();
+        }
+        this.notifySpectators();
+
+        await this.broadcastGameState();
+
+        if (!this.gameState.isActive) {
+            await this.finishGame();
+            return;
+        }
+
+        // Every move may already be in when players answer fast
+        this.schedulePhaseEnd(this.allMovesSubmitted() ? 0 : this.phaseDeadline - Date.now());
+    }
+
+    private schedulePhaseEnd(delay: number): void {
+        if (this.phaseTimer) {
+            clearTimeout(this.phaseTimer);
+        }
+        this.phaseTimer = setTimeout(() => {
+            this.phaseTimer = null;
+            this.endPhase().catch(async error => {
+                console.error('Failed to advance phase, reopening lobby:', error);
+                await this.abandonMatch();
+                this.schedule(() => this.openLobby(), this.config.lobbyPollInterval);
+            });
+        }, Math.max(0, delay));
+    }
+
+    private allMovesSubmitted(): boolean {
+        const awaited = Array.from(this.awaitedMoves.values());
+        return awaited.some(move => !move.afk) && awaited.every(move => move.submitted || move.afk);
+    }
+
+    /**
+     * Take a signed move POSTed to /moves. The phase ends early once every
+     * alive player has submitted.
+     */
+    public async submitMove(message: SignedMessage<PlayerResponse>): Promise<DecisionResult> {
+        const publicKey = message?.publicKey;
+        const awaited = this.status === 'playing' ? this.awaitedMoves.get(publicKey) : undefined;
+        if (!awaited) {
+            return { error: `No move expected from ${publicKey}` };
+        }
+
+        const result = await this.fxnClient.verifyDecision(message, publicKey, awaited.envelope);
+        // The phase may have ended while the signature was checked
+        if (this.awaitedMoves.get(publicKey) !== awaited) {
+            return { error: 'The phase is over' };
+        }
+
+        this.logReplay({ type: 'response_received', publicKey, response: message });
+        this.answered.add(publicKey);
+        if ('error' in result) {
+            console.log(`Rejected move from ${publicKey}: ${result.error}`);
+            this.rejectDecision(publicKey, result.error);
+            return result;
+        }
+
+        awaited.submitted = true;
+        this.recordInput(publicKey, result.decision);
+        // Until the broadcast is done startPhase checks this itself
+        if (this.phaseTimer && this.allMovesSubmitted()) {
+            console.log(`Every move is in, ending the ${this.gameState.phase} phase early`);
+            this.schedulePhaseEnd(0);
+        }
+        return result;
+    }
+
+    private async endPhase(): Promise<void> {
+        if (this.status !== 'playing') return;
+        console.log(`Ending ${this.gameState.phase} phase of round ${this.gameState.currentRound}`);
+        this.updatePresence();
+
+        const { state, events } = advancePhase(
+            this.gameState,
+            Array.from(this.pendingInputs.values())
+        );
+        // Events belong to the round they were resolved in
+        this.recordEvents(events);
+        this.logReplay({ type: 'events', events });
+        this.observations = observeEvents(this.observations, this.gameState, state, events);
+        this.gameState = state;
+
+        await this.startPhase();
+    }
+
+    /**
+     * Announce the winner, persist the match and queue the next one
+     */
+    private async finishGame(): Promise<void> {
+        this.status = 'finished';
+        this.lifecycleDeadline = Date.now() + this.config.nextMatchDelay;
+        this.notifySpectators();
+        console.log(`Match ${this.matchId} over, winner: ${this.gameState.winner}`);
+
+        const record = buildMatchRecord(
+            this.matchId,
+            this.seed,
+            this.startedAt,
+            this.gameState,
+            this.matchEvents,
+            this.invalidDecisions
+        );
+
+        try {
+            await this.matchHistory.save(record);
+            await this.recordTournamentResult(record.matchId, record);
+            // Queue rewards before dropping the checkpoint so a crash can't lose them
+            await this.rewards.queuePayouts(record.matchId, getRewardRecipients(record, this.config));
+            await this.checkpoints.clear();
+        } catch (error) {
+            console.error(`Failed to save match ${this.matchId}:`, error);
+        }
+        this.logReplay({ type: 'match_over', winner: record.winner, participants: record.participants });
+
+        await this.announce({
+            event: 'match_over',
+            winner: record.winner,
+            participants: record.participants,
+            nextMatchIn: this.config.nextMatchDelay
+        });
+
+        let payouts: Payout[] = [];
+        try {
+            payouts = (await this.rewards.processPending()).filter(p => p.matchId === record.matchId);
+        } catch (error) {
+            console.error(`Failed to pay rewards for match ${this.matchId}:`, error);
+        }
+        if (payouts.length > 0) {
+            await this.announce({
+                event: 'rewards_paid',
+                payouts: payouts.map(({ publicKey, amount, status, signature }) => ({ publicKey, amount, status, signature }))
+            });
+        }
+
+        this.schedule(() => this.openLobby(), this.config.nextMatchDelay);
+    }
+
+    /**
+     * Decide the tournament table that played the match, if any
+     */
+    private async recordTournamentResult(matchId: string, record: MatchRecord | null): Promise<void> {
+        if (!this.tournament || !findTable(this.tournament, matchId)) {
+            return;
+        }
+
+        recordTableResult(this.tournament, matchId, record, await this.getPlayerStats());
+        await this.tournaments.save(this.tournament);
+        if (this.tournament.finishedAt) {
+            console.log(`Tournament ${this.tournament.tournamentId} won by`, this.tournament.champions);
+            await this.announce({ event: 'tournament_over', champions: this.tournament.champions });
+        }
+    }
+
+    /**
+     * Count the phase that is ending against the living players who were
+     * asked for a decision, and tell everyone who went AFK or came back
+     */
+    private updatePresence(): void {
+        const expected = Array.from(this.gameState.players.values())
+            .filter(p => p.isAlive && !p.publicKey.startsWith('bot-'))
+            .map(p => p.publicKey);
+        const policy = this.config.afkPolicy === 'bot' ? 'bot' : 'disconnected';
+        const { afk, changes } = recordPhase(this.afk, expected, this.answered, this.config.afkAfterMissedPhases, policy);
+        this.afk = afk;
+        changes.forEach(change => this.announcePresence(change));
+    }
+
+    private announcePresence({ publicKey, presence, missedPhases }: PresenceChange): void {
+        console.log(presence === 'active'
+            ? `${publicKey} is back after ${missedPhases} missed phases`
+            : `${publicKey} missed ${missedPhases} phases in a row, ${presence === 'bot' ? 'a bot plays their seat' : 'marked disconnected'}`);
+        this.logReplay({ type: 'presence', publicKey, presence, missedPhases });
+        // Not awaited: the AFK player's own copy may take every retry to fail, the match goes on meanwhile
+        this.announce({ event: presence === 'active' ? 'player_rejoined' : 'player_afk', publicKey, presence })
+            .catch(error => console.error(`Failed to announce ${publicKey} is ${presence}:`, error));
+    }
+
+    private get match(): AmongUsMatch {
+        return { state: this.gameState, observations: this.observations };
+    }
+
+    private getPlayerView(publicKey: string): GameView {
+        return this.game.getPlayerView(this.match, publicKey);
+    }
+
+    private recordInput(publicKey: string, response: any): void {
+        const result = this.game.parseInput(this.match, publicKey, response);
+        if ('error' in result) {
+            this.rejectDecision(publicKey, result.error);
+            return;
+        }
+        this.logReplay({ type: 'decision', publicKey, input: result.input });
+        this.pendingInputs.set(publicKey, result.input);
+    }
+
+    private rejectDecision(publicKey: string, error: string): void {
+        this.logReplay({ type: 'decision', publicKey, error });
+        // Nothing is asked once the game is over
+        if (this.gameState.isActive) {
+            this.invalidDecisions[publicKey] = (this.invalidDecisions[publicKey] ?? 0) + 1;
+        }
+    }
+
+    private async broadcastGameState(): Promise<void> {
+        const subscribers = await this.fxnClient.getSubscribers();
+        console.log('Broadcasting game state to subscribers:', subscribers);
+        
+        // Handle real players
+        const promises = subscribers.map(async subscriber => {
+            try {
+                const publicKey = subscriber.subscriber.toString();
+                const playerView = this.getPlayerView(publicKey);
+                
+                if (subscriber.status === 'active') {
+                    console.log(`Broadcasting to ${publicKey}:`, playerView);
+                    this.logReplay({ type: 'view_sent', publicKey, view: playerView });
+
+                    // A late decision is dropped with the phase, so the update expires with it
+                    const context = { matchId: this.matchId, round: this.gameState.currentRound, phase: this.gameState.phase };
+                    const expiresAt = this.gameState.isActive ? this.phaseDeadline : Date.now() + this.config.nextMatchDelay;
+                    // Only living players decide, the dead and subscribers outside the match just follow along
+                    if (!this.gameState.isActive || !this.gameState.players.get(publicKey)?.isAlive) {
+                        await this.fxnClient.sendGameState(subscriber, createEnvelope(context, expiresAt), playerView);
+                        return;
+                    }
+                    if (this.config.moveSubmission === 'async') {
+                        const envelope = createEnvelope(context, expiresAt);
+                        const awaited = { envelope, submitted: false, afk: getPresence(this.afk, publicKey) !== 'active' };
+                        this.awaitedMoves.set(publicKey, awaited);
+                        const receipt = await this.fxnClient.sendGameUpdate(subscriber, envelope, playerView, this.config.movesUrl);
+                        // A player who never got the update can't hold the phase open
+                        if (receipt.status === 'failed' && this.awaitedMoves.get(publicKey) === awaited) {
+                            this.awaitedMoves.delete(publicKey);
+                            this.logReplay({ type: 'decision', publicKey, error: receipt.error });
+                        }
+                        return;
+                    }
+
+                    const result = await this.fxnClient.requestDecision(subscriber, context, expiresAt, playerView);
+                    if ('response' in result) {
+                        this.logReplay({ type: 'response_received', publicKey, response: result.response });
+                        this.answered.add(publicKey);
+                    }
+
+                    if ('error' in result) {
+                        console.log(`Rejected response from ${publicKey}: ${result.error}`);
+                        // Only an answer can be an invalid decision, silence is just a missed turn
+                        if ('response' in result) {
+                            this.rejectDecision(publicKey, result.error);
+                        } else {
+                            this.logReplay({ type: 'decision', publicKey, error: result.error });
+                        }
+                        return;
+                    }
+                    this.recordInput(publicKey, result.decision);
+                }
+            } catch (error) {
+                console.error(`Error communicating with subscriber:`, error);
+            }
+        });
+    
+        // Handle bot players, each playing the strategy of its bot seat
+        const bots = Array.from(this.gameState.players.values()).filter(p => p.publicKey.startsWith('bot-'));
+        for (const [botIndex, player] of bots.entries()) {
+            const publicKey = player.publicKey;
+            if (player.isAlive) {
+                const playerView = this.getPlayerView(publicKey);
+                const response = this.game.getBotResponse!(playerView, getBotStrategy(this.config, botIndex));
+                this.logReplay({ type: 'view_sent', publicKey, view: playerView });
+                this.logReplay({ type: 'response_received', publicKey, response });
+                this.recordInput(publicKey, response);
+            }
+        }
+
+        // AFK seats the bots play stand in until their player answers, whose move then replaces the bot's
+        Array.from(this.gameState.players.values())
+            .filter(p => this.gameState.isActive && p.isAlive && getPresence(this.afk, p.publicKey) === 'bot')
+            .forEach(player => {
+                const playerView = this.getPlayerView(player.publicKey);
+                this.recordInput(player.publicKey, this.game.getBotResponse!(playerView, getBotStrategy(this.config, 0)));
+            });
+
+        await Promise.all(promises);
+    }
+}
+
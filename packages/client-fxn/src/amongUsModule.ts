@@ -0,0 +1,390 @@
+import {elizaLogger} from "@ai16z/eliza/src/logger.ts";
+import {AmongUsManager} from "./amongUsManager.ts";
+import {getPlayerView, toPlayerInput, validateInput} from "./amongUsEngine.ts";
+import {getBotResponse} from "./amongUsBots.ts";
+import {GameModule, GameView, InputResult} from "./gameModule.ts";
+import {DecisionSchema, formatSchemaInstructions} from "./decisionSchema.ts";
+import {GameCheckpointStore} from "./gameCheckpoint.ts";
+import {loadMatchConfig} from "./matchConfig.ts";
+import {MatchHistory} from "./matchHistory.ts";
+import {ReplayLog} from "./replayLog.ts";
+import {TournamentStore} from "./tournament.ts";
+import {formatSuspicionTable, scoreSuspicion} from "./amongUsDeduction.ts";
+import {GameState, Observation, ObservationLogs, PlayerInput} from "./types.ts";
+
+/**
+ * A running match as the host holds it: the engine state plus what each
+ * player has observed, which their views are built from
+ */
+export interface AmongUsMatch {
+    state: GameState;
+    observations: ObservationLogs;
+}
+
+/**
+ * One observation in the words of the player who made it
+ */
+function describeObservation(o: Observation): string {
+    switch (o.type) {
+        case 'room_occupants':
+            return `Round ${o.round}: in room ${o.room} you saw ${o.players.join(', ') || 'nobody'}` +
+                (o.bodies.length ? ` and the bodies of ${o.bodies.join(', ')}` : '');
+        case 'witnessed_kill':
+            return `Round ${o.round}: you saw ${o.killer} kill ${o.victim} in room ${o.room}`;
+        case 'body_found':
+            return `Round ${o.round}: you found the body of ${o.victim} in room ${o.room}`;
+        case 'player_left':
+            return `Round ${o.round}: ${o.publicKey} left room ${o.from} for room ${o.to}`;
+        case 'player_arrived':
+            return `Round ${o.round}: ${o.publicKey} arrived in room ${o.to} from room ${o.from}`;
+        case 'meeting_called':
+            return o.reportedBody
+                ? `Round ${o.round}: ${o.reporter} reported the body of ${o.reportedBody}`
+                : `Round ${o.round}: a meeting was called on ${o.accusedPlayer}`;
+        case 'vote_tallied':
+            return `Round ${o.round}: the vote ${o.record.ejected ? `ejected ${o.record.ejected}` : 'ejected nobody'}`;
+        case 'ejected':
+            return `Round ${o.round}: ${o.publicKey} was ejected`;
+        case 'game_over':
+            return `Round ${o.round}: the ${o.winner} won`;
+    }
+}
+
+/**
+ * What this player has witnessed, one line per observation. Votes are listed
+ * on their own in the voting prompt.
+ */
+function formatObservations(gameState: any): string {
+    return (gameState.observations || [])
+        .filter((o: Observation) => o.type !== 'vote_tallied' && o.type !== 'game_over')
+        .map((o: Observation) => `- ${describeObservation(o)}`)
+        .join('\n');
+}
+
+/**
+ * The suspicion table summarizeMemory made, for prompts that have one
+ */
+function formatEvidence(evidence?: string): string {
+    return evidence ? `
+Suspicion of each player from what you remember of this match (higher is more suspicious):
+${evidence}
+` : '';
+}
+
+/**
+ * The prompts below end with how to phrase a free text reply, unless
+ * `structured` asks for a JSON decision instead
+ */
+function createActionPrompt(gameState: any, structured = false, evidence?: string): string {
+    const isImpostor = gameState.yourRole.type === 'impostor';
+    const playersInRoom = gameState.players.filter(
+        (p: any) => p.room === gameState.yourRole.room && 
+        p.isAlive && 
+        p.publicKey !== gameState.yourPublicKey
+    );
+    const bodiesInRoom = gameState.players.filter(
+        (p: any) => p.room === gameState.yourRole.room && !p.isAlive
+    );
+    const tasks = gameState.tasks || { total: 0, completed: 0, rooms: [] };
+    const taskInRoom = tasks.rooms.includes(gameState.yourRole.room);
+
+    let prompt = `You are playing Among Us as a ${gameState.yourRole.type}.
+Current situation:
+- You are in room ${gameState.yourRole.room}
+- Players in your room: ${playersInRoom.map((p: any) => p.publicKey).join(', ')}
+- Bodies in your room: ${bodiesInRoom.map((p: any) => p.publicKey).join(', ') || 'none'}
+- Tasks completed: ${tasks.completed}/${tasks.total}, rooms with unfinished tasks: ${tasks.rooms.join(', ') || 'none'}
+`;
+
+    if (isImpostor) {
+        const otherImpostor = gameState.players.find(
+            (p: any) => p.role === 'impostor' && p.publicKey !== gameState.yourPublicKey
+        );
+        prompt += gameState.canKill === false
+            ? `- Your kill is on cooldown this round
+`
+            : `- You can kill one of the crewmates in your room
+`;
+        prompt += `- Other impostor is ${otherImpostor?.publicKey}
+- Faking a task does nothing, but blends in. The crew wins if they finish every task
+`;
+    }
+
+    prompt += `
+What you have witnessed so far:
+${formatObservations(gameState) || '- nothing yet'}
+${formatEvidence(evidence)}
+Choose your action:
+- "pass" - Do nothing
+- "accuse [playerKey]" - Accuse someone of being an impostor (include reason)
+${taskInRoom ? `- "task" - ${isImpostor ? 'Pretend to work on' : 'Work on'} a task in your room` : ''}
+${gameState.canReport ? '- "report" - Report the body in your room and call a meeting' : ''}
+${isImpostor && gameState.canKill !== false && playersInRoom.length > 0 ? '- "kill [playerKey]" - Kill a crewmate in your room' : ''}
+
+Important: You cannot target yourself or other impostors. Must choose another player if killing or accusing.`;
+    if (!structured) {
+        prompt += `
+Respond with only: pass, task, report or "{action} {target} | {reason}"`;
+    }
+
+    return prompt;
+}
+
+function createMovementPrompt(gameState: any, structured = false, evidence?: string): string {
+    return `You are in room ${gameState.yourRole.room} of ${gameState.roomCount || 6} rooms arranged in a ring.
+${formatEvidence(evidence)}Choose your movement:
+1. "stay" - Stay in current room
+2. "clockwise" - Move to next room clockwise
+3. "counterclockwise" - Move to previous room counterclockwise
+
+Consider:
+- Location of suspicious players
+- Location of trusted players
+- Safety in numbers
+- Your role and objectives${structured ? '' : `
+
+Respond with only: stay, clockwise, or counterclockwise`}`;
+}
+
+function createVotingPrompt(gameState: any, structured = false, evidence?: string): string {
+    const accused = gameState.accusedPlayer;
+    const accusations = (gameState.accusations || [])
+        .map((a: any) => `- ${a.accuser} accused ${a.target}: "${a.accusationText || 'no reason given'}"`)
+        .join('\n');
+    const earlierVotes = (gameState.voteHistory || [])
+        .map((meeting: any) => `Round ${meeting.round}, vote on ${meeting.accusedPlayer || `the report of ${meeting.reportedBody}`} (${meeting.ejected ? `${meeting.ejected} was ejected` : 'nobody was ejected'}):\n` +
+            meeting.votes.map((v: any) => `  - ${v.voter} voted ${v.target || 'skip'}: "${v.voteText}"`).join('\n'))
+        .join('\n');
+
+    // Any living player can be voted out, the accused is only the obvious choice
+    const meeting = accused
+        ? `${accused} is on trial, but you may vote to eject any living player.`
+        : `${gameState.reportedBody}'s body was reported. You may vote to eject any living player.`;
+    const options = [
+        ...(accused ? [`"vote ${accused}" - Vote to eject the accused player`] : []),
+        `"vote {playerKey}" - Vote to eject ${accused ? 'another living' : 'a'} player`,
+        '"skip" - Skip the vote'
+    ];
+
+    return `You are playing Among Us as a ${gameState.yourRole.type}.
+An emergency meeting has been called. ${meeting}
+
+Accusations:
+${accusations || '- none'}
+
+What you have witnessed:
+${formatObservations(gameState) || '- nothing'}
+
+Earlier votes:
+${earlierVotes || '- none'}
+${formatEvidence(evidence)}
+Consider:
+- Whether the accusations are consistent with what you witnessed
+- Who accused whom, and how they voted before
+- Your role and objectives
+
+Choose your vote:
+${options.map((option, i) => `${i + 1}. ${option}`).join('\n')}${structured ? '' : `
+
+Respond with only: "vote {playerKey} | {reason}" or "skip | {reason}"`}`;
+}
+
+function validateAction(action: string, target: string, gameState: any): boolean {
+    // Check for self-targeting
+    if (target === gameState.yourPublicKey) {
+        elizaLogger.debug('Invalid: Self-targeting detected');
+        return false;
+    }
+
+    // For kill actions, prevent targeting other impostors
+    if (action === 'kill') {
+        const targetPlayer = gameState.players.find((p: any) => p.publicKey === target);
+        if (targetPlayer?.role === 'impostor') {
+            elizaLogger.debug('Invalid: Attempted to kill another impostor');
+            return false;
+        }
+
+        // Verify target is in same room and alive
+        if (!gameState.players.some((p: any) => 
+            p.publicKey === target && 
+            p.room === gameState.yourRole.room && 
+            p.isAlive
+        )) {
+            elizaLogger.debug('Invalid: Target not in same room or not alive');
+            return false;
+        }
+    }
+
+    return true;
+}
+
+function validateVote(target: string | null, gameState: any): boolean {
+    // Skipping is always allowed
+    if (target === null) {
+        return true;
+    }
+
+    // Votes may only go to living players
+    if (!gameState.players.some((p: any) => p.publicKey === target && p.isAlive)) {
+        elizaLogger.debug('Invalid: Vote target not found or not alive');
+        return false;
+    }
+
+    return true;
+}
+
+function createPrompt(gameState: GameView, structured = false, evidence?: string): string {
+    switch (gameState.phase) {
+        case 'action':
+            return createActionPrompt(gameState, structured, evidence);
+        case 'movement':
+            return createMovementPrompt(gameState, structured, evidence);
+        case 'voting':
+            return createVotingPrompt(gameState, structured, evidence);
+        default:
+            throw new Error(`Unknown game phase: ${gameState.phase}`);
+    }
+}
+
+/**
+ * The response body the host expects for this phase, limited to the options
+ * the player actually has. Targets are every player validateInput accepts
+ * for some action, which target suits which action is left to it.
+ */
+function getDecisionSchema(gameState: GameView): DecisionSchema {
+    const living = gameState.players
+        .filter((p: any) => p.isAlive)
+        .map((p: any) => p.publicKey);
+    const others = living.filter((publicKey: string) => publicKey !== gameState.yourPublicKey);
+
+    switch (gameState.phase) {
+        case 'action': {
+            const isImpostor = gameState.yourRole.type === 'impostor';
+            const inRoom = gameState.players.filter((p: any) =>
+                p.room === gameState.yourRole.room && p.isAlive && p.publicKey !== gameState.yourPublicKey);
+            const types = ['pass', 'accuse'];
+            if ((gameState.tasks?.rooms || []).includes(gameState.yourRole.room)) types.push('task');
+            if (gameState.canReport) types.push('report');
+            if (isImpostor && gameState.canKill !== false && inRoom.length > 0) types.push('kill');
+
+            return {
+                type: 'object',
+                required: ['type'],
+                properties: {
+                    type: { type: 'string', enum: types },
+                    target: {
+                        type: 'string',
+                        enum: [...others, ...(gameState.reportableBodies || [])],
+                        description: 'The player to accuse or kill, or the body to report'
+                    },
+                    accusationText: { type: 'string', description: 'Why you accuse them, said to everyone' }
+                }
+            };
+        }
+        case 'movement':
+            return {
+                type: 'object',
+                required: ['type'],
+                properties: {
+                    type: { type: 'string', enum: ['stay', 'clockwise', 'counterclockwise'] }
+                }
+            };
+        case 'voting':
+            return {
+                type: 'object',
+                required: ['target', 'voteText'],
+                properties: {
+                    target: {
+                        type: ['string', 'null'],
+                        enum: [...living, null],
+                        description: 'The player to eject, or null to skip'
+                    },
+                    voteText: { type: 'string', description: 'Why you vote this way, said to everyone' }
+                }
+            };
+        default:
+            throw new Error(`Unknown game phase: ${gameState.phase}`);
+    }
+}
+
+function createDecisionPrompt(gameState: GameView, schema: DecisionSchema, evidence?: string): string {
+    return `${createPrompt(gameState, true, evidence)}
+
+${formatSchemaInstructions(schema)}`;
+}
+
+/**
+ * Turn the model's reply into the response body for the host. Anything that
+ * doesn't make sense becomes a pass or a skipped vote.
+ */
+function parseResponse(text: string, gameState: GameView): any {
+    switch (gameState.phase) {
+        case 'action': {
+            if (text.toLowerCase().startsWith('pass')) {
+                return { type: 'pass' };
+            }
+
+            const [action, accusationText] = text.split(' | ');
+            const [type, target] = action.split(' ');
+
+            if (!validateAction(type, target, gameState)) {
+                return { type: 'pass' };
+            }
+
+            return { type, target, accusationText };
+        }
+
+        case 'movement':
+            return { type: text.trim() };
+
+        case 'voting': {
+            const [vote, voteText = ''] = text.split(' | ');
+            const [choice, target] = vote.trim().split(' ');
+
+            if (choice.toLowerCase() !== 'vote' || !validateVote(target, gameState)) {
+                return { target: null, voteText: voteText.trim() || 'Skipping the vote' };
+            }
+
+            return { target, voteText: voteText.trim() };
+        }
+
+        default:
+            return { type: 'pass' };
+    }
+}
+
+function parseInput(match: AmongUsMatch, publicKey: string, response: any): InputResult<PlayerInput> {
+    const input = toPlayerInput(match.state, publicKey, response);
+    if (!input) {
+        return { error: `No ${match.state.phase} decision in the response` };
+    }
+
+    const reason = validateInput(match.state, input);
+    return reason ? { error: reason } : { input };
+}
+
+export const amongUsModule: GameModule<AmongUsMatch, PlayerInput> = {
+    name: 'amongus',
+    phases: ['action', 'movement', 'voting'],
+
+    createHost: ({ runtime, fxnClient, dataDir, rewards }) => new AmongUsManager(
+        amongUsModule,
+        fxnClient,
+        loadMatchConfig(runtime),
+        new MatchHistory(dataDir),
+        new GameCheckpointStore(runtime),
+        rewards,
+        new ReplayLog(dataDir),
+        new TournamentStore(dataDir)
+    ),
+    getPlayerView: (match, publicKey) => getPlayerView(match.state, publicKey, match.observations[publicKey]),
+    parseInput,
+    getBotResponse,
+
+    createPrompt: (view, evidence) => createPrompt(view, false, evidence),
+    parseResponse,
+    getDecisionSchema,
+    createDecisionPrompt,
+    getMemoryEvents: view => (view.observations || []).map((o: Observation) => ({ text: describeObservation(o), event: o })),
+    summarizeMemory: (events, view) => formatSuspicionTable(scoreSuspicion(events, view))
+};
@@ -0,0 +1,74 @@
+/**
+ * The subset of JSON Schema decisions are described with. Objects never
+ * allow properties they don't list.
+ */
+export interface DecisionSchema {
+    type: SchemaType | SchemaType[];
+    description?: string;
+    enum?: Array<string | null>;
+    properties?: Record<string, DecisionSchema>;  // Objects only
+    required?: string[];  // Objects only
+}
+
+type SchemaType = 'object' | 'string' | 'null';
+
+function typeOf(value: any): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+/**
+ * Everything wrong with `value`, as messages the model can act on. Empty when
+ * it matches the schema.
+ */
+export function validateDecision(schema: DecisionSchema, value: any, path = 'decision'): string[] {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.includes(typeOf(value) as SchemaType)) {
+        return [`${path} must be ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`];
+    }
+    if (typeOf(value) !== 'object') {
+        return [];
+    }
+
+    const properties = schema.properties ?? {};
+    const errors: string[] = [];
+    (schema.required ?? []).forEach(key => {
+        if (value[key] === undefined) {
+            errors.push(`${path}.${key} is required`);
+        }
+    });
+    Object.keys(value).forEach(key => {
+        if (!properties[key]) {
+            errors.push(`${path}.${key} is not allowed`);
+        } else if (value[key] !== undefined) {
+            errors.push(...validateDecision(properties[key], value[key], `${path}.${key}`));
+        }
+    });
+    return errors;
+}
+
+/**
+ * Prompt suffix asking for a JSON object that matches the schema
+ */
+export function formatSchemaInstructions(schema: DecisionSchema): string {
+    return `Respond with only a JSON object matching this JSON schema, no other text:
+\`\`\`json
+${JSON.stringify(schema, null, 2)}
+\`\`\``;
+}
+
+/**
+ * Ask the model to fix a decision that didn't match the schema
+ */
+export function createRepairPrompt(prompt: string, reply: any, errors: string[]): string {
+    return `${prompt}
+
+Your previous reply was ${JSON.stringify(reply)}, which is invalid:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Answer again with a corrected JSON object.`;
+}
@@ -0,0 +1,228 @@
+import {IAgentRuntime} from '@ai16z/eliza/src/types.ts';
+import {SignedMessage} from "./protocol.ts";
+
+export interface DeliveryOptions {
+    concurrency: number;  // Most requests in flight at once, across every broadcast
+    decisionConcurrency: number;  // Most decision requests in flight at once, in slots of their own
+    timeout: number;  // ms per attempt
+    retries: number;  // Further attempts after a network error, a timeout or a busy subscriber
+    backoff: number;  // ms before the first retry, doubled for each one after
+}
+
+export const DEFAULT_DELIVERY_OPTIONS: DeliveryOptions = {
+    concurrency: 16,
+    decisionConcurrency: 64,
+    timeout: 10 * 1000,
+    retries: 2,
+    backoff: 250
+};
+
+const SETTING_KEYS: Record<keyof DeliveryOptions, string> = {
+    concurrency: 'FXN_DELIVERY_CONCURRENCY',
+    decisionConcurrency: 'FXN_DELIVERY_DECISION_CONCURRENCY',
+    timeout: 'FXN_DELIVERY_TIMEOUT_MS',
+    retries: 'FXN_DELIVERY_RETRIES',
+    backoff: 'FXN_DELIVERY_BACKOFF_MS'
+};
+
+// The subscriber never handled these, anything else it may have acted on
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+export function loadDeliveryOptions(runtime: IAgentRuntime): DeliveryOptions {
+    const options = { ...DEFAULT_DELIVERY_OPTIONS };
+    (Object.keys(SETTING_KEYS) as Array<keyof DeliveryOptions>).forEach(key => {
+        const value = Number(runtime.getSetting(SETTING_KEYS[key]));
+        if (Number.isFinite(value) && value >= 0) {
+            options[key] = value;
+        }
+    });
+    options.concurrency = Math.max(1, Math.floor(options.concurrency));
+    options.decisionConcurrency = Math.max(1, Math.floor(options.decisionConcurrency));
+    return options;
+}
+
+/**
+ * One signed message for one subscriber
+ */
+export interface Delivery {
+    publicKey: string;
+    recipient?: string;  // The subscriber's endpoint
+    message: SignedMessage;
+    deadline?: number;  // Epoch ms the message expires, no attempt runs past it
+    // The subscriber answers with its decision, so the request stays open until it does or the
+    // deadline passes. Runs in the decision slots, where it can't hold up other broadcasts
+    decision?: boolean;
+}
+
+export interface DeliveryReceipt {
+    publicKey: string;
+    status: 'delivered' | 'failed';
+    attempts: number;
+    latency?: number;  // ms of the attempt that got through
+    httpStatus?: number;
+    error?: string;
+    body?: any;  // The subscriber's JSON reply, if it sent one
+}
+
+export interface SubscriberHealth {
+    publicKey: string;
+    delivered: number;
+    failed: number;
+    consecutiveFailures: number;  // Failed deliveries since the last one that got through
+    lastLatency?: number;
+    lastDeliveredAt?: number;
+    lastFailedAt?: number;
+    lastError?: string;
+}
+
+/**
+ * The part of fetch deliveries use
+ */
+export type FetchFn = (url: string, init?: RequestInit) => Promise<Pick<Response, 'ok' | 'status' | 'text'>>;
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs at most `size` tasks at once, the rest in the order they came
+ */
+class SlotPool {
+    private inFlight = 0;
+    private waiting: Array<() => void> = [];
+
+    constructor(private size: number) {}
+
+    async run<T>(task: () => Promise<T>): Promise<T> {
+        if (this.inFlight >= this.size) {
+            await new Promise<void>(resolve => this.waiting.push(resolve));
+        } else {
+            this.inFlight++;
+        }
+        try {
+            return await task();
+        } finally {
+            // Hand the slot straight to the next task in line
+            const next = this.waiting.shift();
+            if (next) {
+                next();
+            } else {
+                this.inFlight--;
+            }
+        }
+    }
+}
+
+/**
+ * POSTs signed messages to subscribers. Requests share a fixed number of
+ * slots, decision requests a separate set, each attempt is cut off at the
+ * timeout or the message's deadline, whichever comes first, and failed
+ * attempts are retried with backoff while the deadline allows. Never throws:
+ * every delivery ends in a receipt, and the receipts feed each subscriber's
+ * health.
+ */
+export class DeliveryService {
+    private health = new Map<string, SubscriberHealth>();
+    private slots: SlotPool;
+    private decisionSlots: SlotPool;
+
+    constructor(
+        private options: DeliveryOptions = DEFAULT_DELIVERY_OPTIONS,
+        private fetchFn: FetchFn = fetch
+    ) {
+        this.slots = new SlotPool(options.concurrency);
+        this.decisionSlots = new SlotPool(options.decisionConcurrency);
+    }
+
+    /**
+     * Send every delivery, receipts in the same order
+     */
+    deliver(deliveries: Delivery[]): Promise<DeliveryReceipt[]> {
+        return Promise.all(deliveries.map(async delivery => {
+            const slots = delivery.decision ? this.decisionSlots : this.slots;
+            const receipt = await slots.run(() => this.send(delivery));
+            this.recordHealth(receipt);
+            return receipt;
+        }));
+    }
+
+    getHealth(): SubscriberHealth[] {
+        return Array.from(this.health.values());
+    }
+
+    getSubscriberHealth(publicKey: string): SubscriberHealth | undefined {
+        return this.health.get(publicKey);
+    }
+
+    private async send({ publicKey, recipient, message, deadline = Infinity, decision }: Delivery): Promise<DeliveryReceipt> {
+        if (!recipient) {
+            return { publicKey, status: 'failed', attempts: 0, error: 'Subscriber has no recipient' };
+        }
+
+        let attempts = 0;
+        while (true) {
+            const startedAt = Date.now();
+            const timeout = Math.min(decision ? Infinity : this.options.timeout, deadline - startedAt);
+            if (timeout <= 0) {
+                return { publicKey, status: 'failed', attempts, error: 'Message expired before it was delivered' };
+            }
+
+            attempts++;
+            let failure: { httpStatus?: number; error: string };
+            let retryable = true;
+            try {
+                const response = await this.fetchFn(recipient, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json'
+                    },
+                    body: JSON.stringify(message),
+                    signal: Number.isFinite(timeout) ? AbortSignal.timeout(timeout) : undefined
+                });
+                const text = await response.text();
+                if (response.ok) {
+                    return { publicKey, status: 'delivered', attempts, latency: Date.now() - startedAt, httpStatus: response.status, body: parseBody(text) };
+                }
+                failure = { httpStatus: response.status, error: `Subscriber answered ${response.status}` };
+                retryable = RETRYABLE_STATUSES.has(response.status);
+            } catch (error) {
+                failure = { error: error.name === 'TimeoutError' ? `No answer within ${timeout}ms` : error.message };
+            }
+
+            const delay = this.options.backoff * 2 ** (attempts - 1);
+            if (!retryable || attempts > this.options.retries || Date.now() + delay >= deadline) {
+                return { publicKey, status: 'failed', attempts, ...failure };
+            }
+            await sleep(delay);
+        }
+    }
+
+    private recordHealth(receipt: DeliveryReceipt): void {
+        const health = this.health.get(receipt.publicKey) ?? {
+            publicKey: receipt.publicKey,
+            delivered: 0,
+            failed: 0,
+            consecutiveFailures: 0
+        };
+        if (receipt.status === 'delivered') {
+            health.delivered++;
+            health.consecutiveFailures = 0;
+            health.lastLatency = receipt.latency;
+            health.lastDeliveredAt = Date.now();
+        } else {
+            health.failed++;
+            health.consecutiveFailures++;
+            health.lastFailedAt = Date.now();
+            health.lastError = receipt.error;
+        }
+        this.health.set(receipt.publicKey, health);
+    }
+}
+
+function parseBody(text: string): any {
+    try {
+        return text ? JSON.parse(text) : undefined;
+    } catch {
+        return undefined;
+    }
+}
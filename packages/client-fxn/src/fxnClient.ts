@@ -15,8 +15,22 @@ import {
     TOKEN_PROGRAM_ID
 } from "@solana/spl-token";
 import { Transaction } from "@solana/web3.js";
-
-interface TransferResult {
+import path from "path";
+import { randomUUID } from "crypto";
+import { LocalSubscriptionRegistry, SimulatedRewardLedger } from "./localBackend.ts";
+import {
+    createEnvelope,
+    DecisionResult,
+    Envelope,
+    EnvelopeContext,
+    NonceRegistry,
+    PlayerResponse,
+    SignedMessage,
+    verifyResponse
+} from "./protocol.ts";
+import {DeliveryReceipt, DeliveryService, loadDeliveryOptions, SubscriberHealth} from "./delivery.ts";
+
+export interface TransferResult {
     signature: string;
     status: 'success' | 'error';
     message?: string;
@@ -26,56 +40,157 @@ interface TransferResult {
 export class FxnClient extends EventEmitter {
     protected runtime: IAgentRuntime;
     private solanaAdapter: SolanaAdapter;
+    // Set when FXN_BACKEND=local: subscribers and rewards stay on this machine
+    public readonly localRegistry?: LocalSubscriptionRegistry;
+    private simulatedRewards?: SimulatedRewardLedger;
+    // How long players may act on a message without its own expiry
+    private messageTtl: number;
+    private responseNonces = new NonceRegistry();
+    private delivery: DeliveryService;
+    private signingKeypair?: Keypair;
 
     constructor({ runtime }: { runtime: IAgentRuntime }) {
         super();
         this.runtime = runtime;
-        const provider = this.createAnchorProvider();
-        this.solanaAdapter = new SolanaAdapter(provider);
+        this.messageTtl = Number(this.runtime.getSetting("FXN_MESSAGE_TTL_MS")) || 60000;
+        this.delivery = new DeliveryService(loadDeliveryOptions(this.runtime));
+
+        const backend = (this.runtime.getSetting("FXN_BACKEND") || 'solana').toLowerCase();
+        switch (backend) {
+            case 'solana': {
+                const provider = this.createAnchorProvider();
+                this.solanaAdapter = new SolanaAdapter(provider);
+                break;
+            }
+            case 'local': {
+                const dataDir = this.runtime.getSetting("FXN_DATA_DIR") || 'fxn_data';
+                const subscribersFile = this.runtime.getSetting("FXN_SUBSCRIBERS_FILE") || path.join(dataDir, 'subscribers.json');
+                this.localRegistry = new LocalSubscriptionRegistry(subscribersFile);
+                this.simulatedRewards = new SimulatedRewardLedger(dataDir);
+                console.log(`Using the local FXN backend, subscribers from ${subscribersFile}`);
+                break;
+            }
+            default:
+                throw new Error(`Unknown FXN_BACKEND "${backend}", expected solana or local`);
+        }
     }
 
     /**
-     * todo configure the content format
+     * The host key messages are signed with, decoded once
+     */
+    private getKeypair(): Keypair {
+        if (!this.signingKeypair) {
+            const privateKey = this.runtime.getSetting("WALLET_PRIVATE_KEY")!;
+            this.signingKeypair = Keypair.fromSecretKey(bs58.decode(privateKey));
+        }
+        return this.signingKeypair;
+    }
+
+    /**
+     * Sign a message once and send it to each active subscriber. The copies
+     * share a nonce, and an expiry unless the content sets one, so each
+     * player can refuse a replayed message. Returns a receipt per active
+     * subscriber, in order.
      * @param content
      * @param subscribers
-     * @protected
+     * @param decision - whether subscribers answer with their decision, see Delivery.decision
      */
-    public async broadcastToSubscribers(content: any, subscribers: Array<any>) {
-        // console.log('Gonna broadcast - subscribers are ', subscribers);
-        const promises = subscribers.map(async (subscriber) => {
-            try {
-                const privateKey = this.runtime.getSetting("WALLET_PRIVATE_KEY")!;
-                const privateKeyUint8Array = bs58.decode(privateKey);
-                // Create keypair from private key
-                const keypair = Keypair.fromSecretKey(privateKeyUint8Array);
-
-                const signedPayload = await signMessage(keypair, content);
-                const recipient = subscriber.subscription?.recipient;
-
-                console.log('Subscriber fields are ', recipient, subscriber.status);
-
-                if (recipient && subscriber.status === 'active') {
-                    return fetch(recipient, {
-                        method: 'POST',
-                        headers: {
-                            'Content-Type': 'application/json'
-                        },
-                        body: JSON.stringify(signedPayload)
-                    });
-                }
-            } catch (error) {
-                console.error(`Failed to broadcast to subscriber`, subscriber, error);
-            }
+    public async broadcastToSubscribers(content: any, subscribers: Array<any>, decision = false): Promise<DeliveryReceipt[]> {
+        const message = await signMessage(this.getKeypair(), {
+            nonce: randomUUID(),
+            expiresAt: Date.now() + this.messageTtl,
+            ...content
         });
 
-        return Promise.allSettled(promises);
+        const receipts = await this.delivery.deliver(subscribers
+            .filter(subscriber => subscriber.status === 'active')
+            .map(subscriber => ({
+                publicKey: subscriber.subscriber.toString(),
+                recipient: subscriber.subscription?.recipient,
+                message,
+                deadline: message.payload.expiresAt,
+                decision
+            })));
+        receipts
+            .filter(receipt => receipt.status === 'failed')
+            .forEach(receipt => console.error(`Failed to deliver ${content.type} to ${receipt.publicKey} after ${receipt.attempts} attempts: ${receipt.error}`));
+        return receipts;
+    }
+
+    /**
+     * Sign and send a game update to one subscriber. With `movesUrl` the
+     * subscriber answers by POSTing its signed decision there instead of in
+     * the HTTP response. A failed receipt if the subscriber is not active.
+     */
+    public async sendGameUpdate(subscriber: any, envelope: Envelope, gameState: any, movesUrl?: string): Promise<DeliveryReceipt> {
+        return this.deliverGameUpdate(subscriber, { type: 'game_update', ...envelope, gameState, ...(movesUrl ? { movesUrl } : {}) });
+    }
+
+    /**
+     * Sign and send a game update that needs no decision, like the view of a
+     * dead player or of a subscriber who isn't in the match
+     */
+    public async sendGameState(subscriber: any, envelope: Envelope, gameState: any): Promise<DeliveryReceipt> {
+        return this.deliverGameUpdate(subscriber, { type: 'game_state', ...envelope, gameState });
+    }
+
+    private async deliverGameUpdate(subscriber: any, content: any, decision = false): Promise<DeliveryReceipt> {
+        const [receipt] = await this.broadcastToSubscribers(content, [subscriber], decision);
+        return receipt ?? { publicKey: subscriber.subscriber.toString(), status: 'failed', attempts: 0, error: 'Subscriber is not active' };
+    }
+
+    /**
+     * Send a game update to one subscriber and return the decision it signed.
+     * `response` is the raw reply, set whenever the subscriber answered.
+     */
+    public async requestDecision(
+        subscriber: any,
+        context: EnvelopeContext,
+        expiresAt: number,
+        gameState: any
+    ): Promise<DecisionResult & { response?: any; receipt: DeliveryReceipt }> {
+        const envelope = createEnvelope(context, expiresAt);
+        // The subscriber decides before answering, only the update's expiry bounds the wait
+        const receipt = await this.deliverGameUpdate(subscriber, { type: 'game_update', ...envelope, gameState }, true);
+        if (receipt.status !== 'delivered') {
+            return { error: receipt.error, receipt };
+        }
+        if (receipt.body === undefined) {
+            return { error: 'Response is not JSON', receipt };
+        }
+
+        const verified = await this.verifyDecision(receipt.body, subscriber.subscriber.toString(), envelope);
+        return { ...verified, response: receipt.body, receipt };
+    }
+
+    /**
+     * How deliveries to each subscriber have gone since the host started
+     */
+    public getDeliveryHealth(): SubscriberHealth[] {
+        return this.delivery.getHealth();
+    }
+
+    public getSubscriberHealth(publicKey: string): SubscriberHealth | undefined {
+        return this.delivery.getSubscriberHealth(publicKey);
     }
 
     /**
-     * Retrieve the Host's subscriber list from FXN
+     * Check a decision signed by `publicKey` answers the update sent with
+     * `sent`, and accept it at most once
+     */
+    public verifyDecision(message: SignedMessage<PlayerResponse>, publicKey: string, sent: Envelope): Promise<DecisionResult> {
+        return verifyResponse(message, publicKey, sent, this.responseNonces);
+    }
+
+    /**
+     * Retrieve the Host's subscriber list from FXN, or from the local registry
      * @protected
      */
     public async getSubscribers(): Promise<any[]> {
+        if (this.localRegistry) {
+            return this.localRegistry.getSubscribers();
+        }
+
         const agentId = new PublicKey(this.runtime.getSetting("WALLET_PUBLIC_KEY"));
         return this.solanaAdapter.getSubscriptionsForProvider(agentId);
     }
@@ -132,7 +247,7 @@ export class FxnClient extends EventEmitter {
     }
 
     /**
-     * Transfer tokens to a recipient on mainnet
+     * Transfer tokens to a recipient on mainnet, or record a simulated transfer with the local backend
      * @param recipientPublicKey - The public key of the reward recipient
      * @param amount - The amount of tokens to transfer (in human-readable format)
      * @returns Promise<TransferResult>
@@ -141,6 +256,10 @@ export class FxnClient extends EventEmitter {
         recipientPublicKey: string,
         amount: number
     ): Promise<TransferResult> {
+        if (this.simulatedRewards) {
+            return this.simulatedRewards.transfer(recipientPublicKey, amount);
+        }
+
         try {
             const rewardTokenCA = this.runtime.getSetting('REWARD_TOKEN_CA');
             if (!rewardTokenCA) {
@@ -0,0 +1,82 @@
+import {IAgentRuntime, UUID} from '@ai16z/eliza/src/types.ts';
+import {stringToUuid} from "@ai16z/eliza/src/uuid.ts";
+import {GameEvent, GameState, ObservationLogs, PlayerState} from "./types.ts";
+import {AfkState} from "./afk.ts";
+
+const CHECKPOINT_TABLE = 'fxn_game_checkpoints';
+
+/**
+ * GameState with its Maps flattened so it survives JSON
+ */
+export interface SerializedGameState extends Omit<GameState, 'players' | 'votingResults'> {
+    players: PlayerState[];
+    votingResults?: Array<[string, string]>;
+}
+
+export interface GameCheckpoint {
+    matchId: string;
+    seed: number;
+    startedAt: number;
+    phaseDeadline: number;  // Epoch ms at which the current phase ends
+    state: SerializedGameState;
+    matchEvents: Array<GameEvent & { round: number }>;
+    observations: ObservationLogs;
+    invalidDecisions: Record<string, number>;  // publicKey -> decisions rejected this match
+    afk: AfkState;
+}
+
+export function serializeGameState(state: GameState): SerializedGameState {
+    return {
+        ...state,
+        players: Array.from(state.players.values()),
+        votingResults: state.votingResults && Array.from(state.votingResults.entries())
+    };
+}
+
+export function deserializeGameState(state: SerializedGameState): GameState {
+    return {
+        ...state,
+        players: new Map(state.players.map(p => [p.publicKey, p])),
+        votingResults: state.votingResults && new Map(state.votingResults)
+    };
+}
+
+/**
+ * Keeps the match in progress in the runtime's database, one checkpoint per
+ * host agent, so a restarted host can pick the match back up.
+ */
+export class GameCheckpointStore {
+    private readonly checkpointId: UUID;
+    private readonly roomId: UUID;
+
+    constructor(private runtime: IAgentRuntime) {
+        this.checkpointId = stringToUuid(`fxn-checkpoint-${runtime.agentId}`);
+        this.roomId = stringToUuid(`fxn-game-${runtime.agentId}`);
+    }
+
+    async save(checkpoint: GameCheckpoint): Promise<void> {
+        await this.runtime.ensureRoomExists(this.roomId);
+
+        // Not every adapter upserts on createMemory, so replace explicitly
+        await this.runtime.databaseAdapter.removeMemory(this.checkpointId, CHECKPOINT_TABLE);
+        await this.runtime.databaseAdapter.createMemory({
+            id: this.checkpointId,
+            userId: this.runtime.agentId,
+            agentId: this.runtime.agentId,
+            roomId: this.roomId,
+            content: {
+                text: `Among Us match ${checkpoint.matchId}, round ${checkpoint.state.currentRound} ${checkpoint.state.phase}`,
+                checkpoint
+            }
+        }, CHECKPOINT_TABLE);
+    }
+
+    async load(): Promise<GameCheckpoint | null> {
+        const memory = await this.runtime.databaseAdapter.getMemoryById(this.checkpointId);
+        return (memory?.content?.checkpoint as GameCheckpoint) ?? null;
+    }
+
+    async clear(): Promise<void> {
+        await this.runtime.databaseAdapter.removeMemory(this.checkpointId, CHECKPOINT_TABLE);
+    }
+}
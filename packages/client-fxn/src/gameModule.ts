@@ -0,0 +1,109 @@
+import {IAgentRuntime} from '@ai16z/eliza/src/types.ts';
+import {FxnClient} from "./fxnClient.ts";
+import {RewardDistributor} from "./rewards.ts";
+import {LeaderboardEntry} from "./spectator.ts";
+import {DecisionResult, SignedMessage} from "./protocol.ts";
+import {DecisionSchema} from "./decisionSchema.ts";
+
+/**
+ * A game state as sent to one player. `game` lets the player check it is
+ * playing the game it loaded, `phase` which kind of decision is asked for.
+ */
+export interface GameView {
+    game: string;
+    phase: string;
+    [key: string]: any;
+}
+
+/**
+ * A player's response checked against the current state: the input to apply,
+ * or why it was rejected
+ */
+export type InputResult<TInput> = { input: TInput } | { error: string };
+
+/**
+ * What the FXN client hands a game module to host matches with
+ */
+export interface GameHostContext {
+    runtime: IAgentRuntime;
+    fxnClient: FxnClient;
+    dataDir: string;  // Where the game keeps its match history
+    rewards: RewardDistributor;
+}
+
+/**
+ * A finished match a host can replay
+ */
+export interface ReplaySummary {
+    matchId: string;
+    endedAt: number;
+    winner?: string;
+    rounds: number;
+}
+
+/**
+ * A running host game loop. Emits 'update' with its spectator state whenever
+ * the match changes.
+ */
+export interface GameHost {
+    getSpectatorState(): { game: string };
+    getWinners(): Promise<LeaderboardEntry[]>;
+    on(event: 'update', listener: (state: { game: string }) => void): unknown;
+    off(event: 'update', listener: (state: { game: string }) => void): unknown;
+    stop(): void;
+
+    // Games that keep replay logs
+    listReplays?(): Promise<ReplaySummary[]>;
+    getReplay?(matchId: string): Promise<unknown | null>;  // Null for unknown or unfinished matches
+
+    // Games that take signed moves through /moves instead of the broadcast response
+    submitMove?(message: SignedMessage): Promise<DecisionResult>;
+
+    // Games that rate players and run tournaments from the ratings
+    getPlayerStats?(): Promise<Array<{ publicKey: string }>>;
+    getTournament?(): unknown | null;
+    startTournament?(options: { players?: string[]; tableSize?: number }): Promise<unknown>;  // Throws on invalid options
+}
+
+/**
+ * Something a player saw, as it is remembered: `text` for people reading
+ * the memory, `event` for the game to reason over
+ */
+export interface MemoryEvent {
+    text: string;
+    event: any;
+}
+
+/**
+ * Everything the FXN client needs to host or play one game. Host and players
+ * load the same module by name (FXN_GAME): the host runs createHost, players
+ * turn each view they receive into a prompt and parse the model's reply.
+ *
+ * Games outside this package export a GameModule as their default export or
+ * as `gameModule`, see loadGameModule.
+ */
+export interface GameModule<TState = any, TInput = any> {
+    name: string;
+    phases: readonly string[];  // Phases that ask players for a decision
+
+    // Host side
+    createHost(context: GameHostContext): GameHost;
+    getPlayerView(state: TState, publicKey: string): GameView;
+    parseInput(state: TState, publicKey: string, response: any): InputResult<TInput>;
+    getBotResponse?(view: GameView, strategy?: string): any;  // Bot policy for seats without a player, if the game has bots
+
+    // Player side. `evidence` is what summarizeMemory made of the match so far.
+    createPrompt(view: GameView, evidence?: string): string;
+    parseResponse(text: string, view: GameView): any;  // The response body sent back to the host
+
+    // Player side, structured: games with a decision schema get the response
+    // body from the model as JSON, validated against the schema, instead of
+    // parsing free text
+    getDecisionSchema?(view: GameView): DecisionSchema;
+    createDecisionPrompt?(view: GameView, schema: DecisionSchema, evidence?: string): string;
+
+    // Player side, memory: games whose players keep what they saw in the
+    // runtime's messageManager, one room per match, and reason over it
+    getMemoryEvents?(view: GameView): MemoryEvent[];  // Everything seen so far, oldest first; later views only add to it
+    summarizeMemory?(events: any[], view: GameView): string;  // Evidence for the prompt
+}
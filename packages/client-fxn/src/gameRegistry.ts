@@ -0,0 +1,46 @@
+import {GameModule} from "./gameModule.ts";
+import {amongUsModule} from "./amongUsModule.ts";
+import {wordAileModule} from "./wordAileModule.ts";
+
+export const BUILT_IN_GAMES: Record<string, GameModule> = {
+    [amongUsModule.name]: amongUsModule,
+    [wordAileModule.name]: wordAileModule
+};
+
+const REQUIRED_FUNCTIONS = ['createHost', 'getPlayerView', 'parseInput', 'createPrompt', 'parseResponse'] as const;
+
+/**
+ * Throws unless the value has everything a GameModule needs
+ */
+export function assertGameModule(value: any, source: string): asserts value is GameModule {
+    const missing: string[] = REQUIRED_FUNCTIONS.filter(key => typeof value?.[key] !== 'function');
+    if (typeof value?.name !== 'string' || !value.name) missing.push('name');
+    if (!Array.isArray(value?.phases)) missing.push('phases');
+    if (missing.length > 0) {
+        throw new Error(`${source} is not a game module, missing ${missing.join(', ')}`);
+    }
+}
+
+/**
+ * Load a game by name: one of the built-in games, or a package exporting a
+ * GameModule as its default export or as `gameModule`
+ */
+export async function loadGameModule(name: string): Promise<GameModule> {
+    const builtIn = BUILT_IN_GAMES[name.toLowerCase()];
+    if (builtIn) {
+        return builtIn;
+    }
+
+    let loaded: any;
+    try {
+        loaded = await import(name);
+    } catch (error) {
+        throw new Error(
+            `Unknown game "${name}", expected one of ${Object.keys(BUILT_IN_GAMES).join(', ')} or an installed game package: ${error.message}`
+        );
+    }
+
+    const module = loaded.gameModule ?? loaded.default;
+    assertGameModule(module, `Package "${name}"`);
+    return module;
+}
@@ -1,144 +1,185 @@
 import express from 'express';
 import bodyParser from 'body-parser';
+import fs from 'fs';
+import path from 'path';
+import {fileURLToPath} from 'url';
 import {IAgentRuntime} from '@ai16z/eliza/src/types.ts';
-import {AmongUsManager} from "./wordAileManager.ts";
 import {FxnClient} from "./fxnClient.ts";
 import {verifyMessage} from "./utils/signingUtils.ts";
-import {generateText, ModelClass} from "@ai16z/eliza";
+import {Envelope, NonceRegistry, PlayerResponse, SignedMessage, signResponse} from "./protocol.ts";
+import {Keypair} from "@solana/web3.js";
+import bs58 from "bs58";
+import {generateObject, generateText, ModelClass} from "@ai16z/eliza";
+import {PayoutLedger, RewardDistributor} from "./rewards.ts";
+import {GameHost, GameModule, GameView} from "./gameModule.ts";
+import {loadGameModule} from "./gameRegistry.ts";
+import {createRepairPrompt, validateDecision} from "./decisionSchema.ts";
+import {PlayerMemory} from "./playerMemory.ts";
+
+// The contract for games shipped as separate packages
+export * from "./gameModule.ts";
+export * from "./decisionSchema.ts";
+
+const HOST_VIEW_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), 'templates', 'host-view.html');
+const MATCH_ID_PATTERN = /^[\w-]+$/;
 
 export class FxnClientInterface {
     private app: express.Express;
-    private gameManager: AmongUsManager;
+    private gameModule: GameModule;
+    private gameHost: GameHost;
     private fxnClient: FxnClient;
+    // Player side: nonces of host messages already acted on
+    private hostNonces = new NonceRegistry();
+    // Player side: how the model's structured decisions went in the current match
+    private decisionCounts: { matchId: string; valid: number; repaired: number; invalid: number };
+    // Player side: what we saw in each match, for games that remember
+    private memory: PlayerMemory;
 
     constructor(private runtime: IAgentRuntime) {
         this.app = express();
         this.app.use(bodyParser.json());
+        this.memory = new PlayerMemory(runtime);
+    }
 
-        const role = this.runtime.getSetting("FXN_ROLE");
-        if (role) {
-            this.setupGame(role);
+    private async handleGameState(gameState: GameView, matchId: string): Promise<any> {
+        console.log('Processing game state:', JSON.stringify(gameState, null, 2));
+
+        if (gameState.game !== this.gameModule.name) {
+            console.error(`Received a ${gameState.game} game state but this player plays ${this.gameModule.name}`);
+            return {};
         }
-    }
 
-    private createActionPrompt(gameState: any): string {
-        const isImpostor = gameState.yourRole.type === 'impostor';
-        const playersInRoom = gameState.players.filter(
-            (p: any) => p.room === gameState.yourRole.room && 
-            p.isAlive && 
-            p.publicKey !== gameState.players[0].publicKey
-        );
-
-        let prompt = `You are playing Among Us as a ${gameState.yourRole.type}.
-Current situation:
-- You are in room ${gameState.yourRole.room}
-- Players in your room: ${playersInRoom.map((p: any) => p.publicKey).join(', ')}
-`;
-
-        if (isImpostor) {
-            const otherImpostor = gameState.players.find(
-                (p: any) => p.role === 'impostor' && p.publicKey !== gameState.players[0].publicKey
-            );
-            prompt += `- You can kill one of the crewmates in your room
-- Other impostor is ${otherImpostor?.publicKey}
-`;
+        // Remember every update, the ones that need no decision too
+        const evidence = await this.recallEvidence(gameState, matchId);
+        if (!this.gameModule.phases.includes(gameState.phase)) {
+            console.log(`Nothing to decide in the ${gameState.phase} phase`);
+            return {};
         }
 
-        prompt += `
-Choose your action:
-1. "pass" - Do nothing
-2. "accuse [playerKey]" - Accuse someone of being an impostor (include reason)
-${isImpostor && playersInRoom.length > 0 ? '3. "kill [playerKey]" - Kill a crewmate in your room' : ''}
+        if (this.gameModule.getDecisionSchema && this.gameModule.createDecisionPrompt) {
+            return this.generateDecision(gameState, matchId, evidence);
+        }
 
-Important: You cannot target yourself or other impostors. Must choose another player if killing or accusing.
-Respond with only: pass or "{action} {target} | {reason}"`;
+        const prompt = this.gameModule.createPrompt(gameState, evidence);
+        const response = await generateText({
+            runtime: this.runtime,
+            context: prompt,
+            modelClass: ModelClass.SMALL
+        });
+        console.log(`Generated ${gameState.phase} response:`, response);
+        await this.logPrompt(gameState, prompt, response);
 
-        return prompt;
+        return this.gameModule.parseResponse(response, gameState);
     }
 
-    private createMovementPrompt(gameState: any): string {
-        return `You are in room ${gameState.yourRole.room}.
-Choose your movement:
-1. "stay" - Stay in current room
-2. "clockwise" - Move to next room clockwise
-3. "counterclockwise" - Move to previous room counterclockwise
+    /**
+     * Ask the model for a JSON decision and check it against the phase's
+     * schema. Invalid replies get FXN_DECISION_RETRIES (default 2) chances to
+     * be repaired before the player sends no decision at all.
+     */
+    private async generateDecision(gameState: GameView, matchId: string, evidence?: string): Promise<any> {
+        const maxRetries = Number(this.runtime.getSetting("FXN_DECISION_RETRIES") ?? 2) || 0;
+        const schema = this.gameModule.getDecisionSchema(gameState);
+        const basePrompt = this.gameModule.createDecisionPrompt(gameState, schema, evidence);
+
+        let prompt = basePrompt;
+        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+            const decision = await generateObject({
+                runtime: this.runtime,
+                context: prompt,
+                modelClass: ModelClass.SMALL,
+                maxRetries: 0
+            });
+            const errors = validateDecision(schema, decision);
+            await this.logPrompt(gameState, prompt, JSON.stringify(decision), { matchId, attempt, errors });
 
-Consider:
-- Location of suspicious players
-- Location of trusted players
-- Safety in numbers
-- Your role and objectives
+            if (errors.length === 0) {
+                this.countDecision(matchId, attempt > 0 ? 'repaired' : 'valid');
+                return decision;
+            }
+            console.log(`Invalid ${gameState.phase} decision (attempt ${attempt + 1}):`, errors);
+            prompt = createRepairPrompt(basePrompt, decision, errors);
+        }
 
-Respond with only: stay, clockwise, or counterclockwise`;
+        this.countDecision(matchId, 'invalid');
+        return {};
     }
 
-    private validateAction(action: string, target: string, gameState: any): boolean {
-        // Check for self-targeting
-        if (target === gameState.players[0].publicKey) {
-            console.log('Invalid: Self-targeting detected');
-            return false;
+    /**
+     * Store what the update shows in the match's memory and summarize
+     * everything remembered for the prompt. Games without memory hooks get no
+     * evidence, and neither does a player whose memory fails.
+     */
+    private async recallEvidence(gameState: GameView, matchId: string): Promise<string | undefined> {
+        if (!this.gameModule.getMemoryEvents || !this.gameModule.summarizeMemory || !matchId) {
+            return undefined;
         }
 
-        // For kill actions, prevent targeting other impostors
-        if (action === 'kill') {
-            const targetPlayer = gameState.players.find((p: any) => p.publicKey === target);
-            if (targetPlayer?.role === 'impostor') {
-                console.log('Invalid: Attempted to kill another impostor');
-                return false;
-            }
-
-            // Verify target is in same room and alive
-            if (!gameState.players.some((p: any) => 
-                p.publicKey === target && 
-                p.room === gameState.yourRole.room && 
-                p.isAlive
-            )) {
-                console.log('Invalid: Target not in same room or not alive');
-                return false;
-            }
+        try {
+            await this.memory.remember(matchId, this.gameModule.getMemoryEvents(gameState));
+            return this.gameModule.summarizeMemory(await this.memory.recall(matchId), gameState) || undefined;
+        } catch (error) {
+            console.error(`Failed to recall match ${matchId}:`, error);
+            return undefined;
         }
+    }
 
-        return true;
+    /**
+     * Tally how the model's decisions turned out this match
+     */
+    private countDecision(matchId: string, outcome: 'valid' | 'repaired' | 'invalid'): void {
+        // Only the current match is kept
+        if (this.decisionCounts?.matchId !== matchId) {
+            this.decisionCounts = { matchId, valid: 0, repaired: 0, invalid: 0 };
+        }
+        this.decisionCounts[outcome]++;
+        console.log(`Decisions in match ${matchId}:`, this.decisionCounts);
     }
 
-    private async handleGameState(gameState: any): Promise<any> {
-        console.log('Processing game state:', JSON.stringify(gameState, null, 2));
-        
-        switch (gameState.phase) {
-            case 'action': {
-                const actionResponse = await generateText({
-                    runtime: this.runtime,
-                    context: this.createActionPrompt(gameState),
-                    modelClass: ModelClass.SMALL
-                });
-                console.log('Generated action response:', actionResponse);
-                
-                if (actionResponse.toLowerCase().startsWith('pass')) {
-                    return { type: 'pass' };
-                }
+    /**
+     * Append the prompt and the model's reply to FXN_PROMPT_LOG, if set. The
+     * simulator replays these with --model recorded.
+     */
+    private async logPrompt(gameState: GameView, prompt: string, response: string, details: Record<string, any> = {}): Promise<void> {
+        const logPath = this.runtime.getSetting("FXN_PROMPT_LOG");
+        if (!logPath) return;
 
-                const [action, text] = actionResponse.split(' | ');
-                const [type, target] = action.split(' ');
-                
-                if (!this.validateAction(type, target, gameState)) {
-                    return { type: 'pass' };
-                }
+        try {
+            const entry = { game: gameState.game, phase: gameState.phase, prompt, response, ...details, timestamp: Date.now() };
+            await fs.promises.appendFile(logPath, JSON.stringify(entry) + '\n');
+        } catch (error) {
+            console.error('Failed to log prompt:', error);
+        }
+    }
 
-                return { type, target, accusationText: text };
-            }
+    /**
+     * Decide on a game update, signed with our subscriber key so the host
+     * knows the decision is ours
+     */
+    private async decide(payload: Envelope & { gameState: GameView }): Promise<SignedMessage<PlayerResponse>> {
+        const decision = await this.handleGameState(payload.gameState, payload.matchId);
+        console.log('Generated decision:', decision);
 
-            case 'movement': {
-                const movement = await generateText({
-                    runtime: this.runtime,
-                    context: this.createMovementPrompt(gameState),
-                    modelClass: ModelClass.SMALL
-                });
-                return { type: movement.trim() };
-            }
+        const keypair = Keypair.fromSecretKey(bs58.decode(this.runtime.getSetting("WALLET_PRIVATE_KEY")));
+        return signResponse(keypair, payload, decision);
+    }
 
-            default:
-                console.error('Unknown game phase:', gameState.phase);
-                return { type: 'pass' };
+    /**
+     * POST a decision to the host's /moves endpoint. Errors are only logged,
+     * the host already has its answer to the broadcast.
+     */
+    private async postMove(payload: Envelope & { gameState: GameView; movesUrl: string }): Promise<void> {
+        try {
+            const response = await fetch(payload.movesUrl, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(await this.decide(payload))
+            });
+            if (!response.ok) {
+                console.error(`Host refused our ${payload.phase} move:`, await response.text());
+            }
+        } catch (error) {
+            console.error('Failed to submit move:', error);
         }
     }
 
@@ -146,7 +187,7 @@ Respond with only: stay, clockwise, or counterclockwise`;
         console.log('Setting up routes for player');
         const handleRequest = async (req: any, res: any) => {
             try {
-                const { publicKey, signature, payload } = req.body;
+                const { version, signature, payload } = req.body;
         
                 console.log('Received POST request:', {
                     path: req.path,
@@ -159,6 +200,7 @@ Respond with only: stay, clockwise, or counterclockwise`;
                 const gameMasterKey = this.runtime.getSetting("GAME_MASTER_KEY");
         
                 const verificationResult = await verifyMessage({
+                    version,
                     payload,
                     signature,
                     publicKey: gameMasterKey
@@ -170,12 +212,35 @@ Respond with only: stay, clockwise, or counterclockwise`;
                         details: 'Message signature verification failed'
                     });
                 }
+
+                // A validly signed message can still be a replay of an old one
+                const refused = this.hostNonces.accept(payload);
+                if (refused) {
+                    return res.status(409).json({ error: refused });
+                }
         
-                const decision = await this.handleGameState(payload.gameState);
-                console.log('Generated decision:', decision);
-        
-                console.log('Sending response:', decision);
-                return res.json(decision);
+                // Lobby and match announcements need no decision
+                if (payload.type === 'announcement') {
+                    console.log('Received announcement:', payload.announcement);
+                    return res.json({ received: true });
+                }
+
+                // Updates that ask for no decision, like a dead player's, are only remembered
+                if (payload.type === 'game_state') {
+                    await this.recallEvidence(payload.gameState, payload.matchId);
+                    return res.json({ received: true });
+                }
+
+                // The host takes this decision at movesUrl, answer now so the model can take its time
+                if (payload.movesUrl) {
+                    res.json({ received: true });
+                    await this.postMove(payload);
+                    return;
+                }
+
+                const response = await this.decide(payload);
+                console.log('Sending response:', response);
+                return res.json(response);
         
             } catch (error) {
                 console.error('Error processing request:', error);
@@ -187,7 +252,13 @@ Respond with only: stay, clockwise, or counterclockwise`;
         this.app.post('', handleRequest);
     }
 
-    private setupGame(role: string) {
+    /**
+     * Load the game both roles play (FXN_GAME, Among Us by default), then host it or play it
+     */
+    private async setupGame(role: string) {
+        this.gameModule = await loadGameModule(this.runtime.getSetting("FXN_GAME") || 'amongus');
+        console.log(`Playing ${this.gameModule.name} as ${role}`);
+
         if (role === 'PLAYER') {
             this.setupRoutes();
         }
@@ -195,6 +266,13 @@ Respond with only: stay, clockwise, or counterclockwise`;
             this.fxnClient = new FxnClient({ runtime: this.runtime });
             this.setupGameLoop();
             this.setupHostRoutes();
+            if (this.fxnClient.localRegistry) {
+                if (this.runtime.getSetting("FXN_ADMIN_TOKEN")) {
+                    this.setupAdminRoutes();
+                } else {
+                    console.warn('FXN_ADMIN_TOKEN is not set, /admin/subscribers is disabled');
+                }
+            }
         }
         const port = this.runtime.getSetting("SERVER_PORT") || 3000;
         this.app.listen(port, () => {
@@ -203,20 +281,231 @@ Respond with only: stay, clockwise, or counterclockwise`;
     }
 
     private setupHostRoutes() {
+        this.app.get('/', (req, res) => {
+            res.sendFile(HOST_VIEW_PATH);
+        });
+
         this.app.get('/api/game-state', (req, res) => {
-            // Return game state for front-end
+            res.json({
+                hostPublicKey: this.runtime.getSetting("WALLET_PUBLIC_KEY"),
+                ...this.gameHost.getSpectatorState()
+            });
+        });
+
+        this.app.get('/api/winners', async (req, res) => {
+            try {
+                res.json({ winners: await this.gameHost.getWinners() });
+            } catch (error) {
+                console.error('Error loading winners:', error);
+                res.status(500).json({ error: 'Failed to load winners' });
+            }
+        });
+
+        this.app.get('/api/replays', async (req, res) => {
+            if (!this.gameHost.listReplays) {
+                return res.status(404).json({ error: `${this.gameModule.name} does not keep replays` });
+            }
+            try {
+                res.json({ replays: await this.gameHost.listReplays() });
+            } catch (error) {
+                console.error('Error listing replays:', error);
+                res.status(500).json({ error: 'Failed to list replays' });
+            }
+        });
+
+        this.app.get('/api/replays/:matchId', async (req, res) => {
+            if (!this.gameHost.getReplay) {
+                return res.status(404).json({ error: `${this.gameModule.name} does not keep replays` });
+            }
+            // Match ids are UUIDs, anything else can't have a replay
+            if (!MATCH_ID_PATTERN.test(req.params.matchId)) {
+                return res.status(404).json({ error: 'No replay for this match' });
+            }
+            try {
+                const replay = await this.gameHost.getReplay(req.params.matchId);
+                if (!replay) {
+                    return res.status(404).json({ error: 'No replay for this match yet' });
+                }
+                res.json(replay);
+            } catch (error) {
+                console.error('Error loading replay:', error);
+                res.status(500).json({ error: 'Failed to load replay' });
+            }
+        });
+
+        this.app.get('/api/stats', async (req, res) => {
+            if (!this.gameHost.getPlayerStats) {
+                return res.status(404).json({ error: `${this.gameModule.name} does not rate players` });
+            }
+            try {
+                res.json({ players: await this.gameHost.getPlayerStats() });
+            } catch (error) {
+                console.error('Error loading player stats:', error);
+                res.status(500).json({ error: 'Failed to load player stats' });
+            }
+        });
+
+        this.app.get('/api/stats/:publicKey', async (req, res) => {
+            if (!this.gameHost.getPlayerStats) {
+                return res.status(404).json({ error: `${this.gameModule.name} does not rate players` });
+            }
+            try {
+                const stats = (await this.gameHost.getPlayerStats()).find(p => p.publicKey === req.params.publicKey);
+                if (!stats) {
+                    return res.status(404).json({ error: 'No finished matches for this player' });
+                }
+                res.json(stats);
+            } catch (error) {
+                console.error('Error loading player stats:', error);
+                res.status(500).json({ error: 'Failed to load player stats' });
+            }
+        });
+
+        this.app.get('/api/tournament', (req, res) => {
+            const tournament = this.gameHost.getTournament?.();
+            if (!tournament) {
+                return res.status(404).json({ error: 'No tournament yet' });
+            }
+            res.json(tournament);
+        });
+
+        // Body: { players?: string[], tableSize?: number }, every active subscriber by default
+        this.app.post('/admin/tournament', this.authorizeAdmin(), async (req, res) => {
+            if (!this.gameHost.startTournament) {
+                return res.status(404).json({ error: `${this.gameModule.name} does not run tournaments` });
+            }
+            try {
+                res.status(201).json(await this.gameHost.startTournament({
+                    players: req.body?.players,
+                    tableSize: req.body?.tableSize
+                }));
+            } catch (error) {
+                res.status(400).json({ error: error.message });
+            }
+        });
+
+        // How broadcasts to each subscriber have gone, to spot players who stopped answering
+        this.app.get('/admin/delivery', this.authorizeAdmin(), (req, res) => {
+            res.json({ subscribers: this.fxnClient.getDeliveryHealth() });
+        });
+
+        // Signed moves from players, for games with async move submission
+        this.app.post('/moves', async (req, res) => {
+            if (!this.gameHost.submitMove) {
+                return res.status(404).json({ error: `${this.gameModule.name} does not take moves here` });
+            }
+            try {
+                const result = await this.gameHost.submitMove(req.body);
+                if ('error' in result) {
+                    return res.status(400).json({ error: result.error });
+                }
+                res.status(202).json({ accepted: true });
+            } catch (error) {
+                console.error('Error submitting move:', error);
+                res.status(500).json({ error: 'Failed to submit move' });
+            }
+        });
+
+        // Server-Sent Events stream of spectator state
+        this.app.get('/api/events', (req, res) => {
+            res.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                'Connection': 'keep-alive'
+            });
+
+            const send = (state: { game: string }) => {
+                res.write(`data: ${JSON.stringify(state)}\n\n`);
+            };
+            send(this.gameHost.getSpectatorState());
+
+            this.gameHost.on('update', send);
+            req.on('close', () => {
+                this.gameHost.off('update', send);
+            });
+        });
+    }
+
+    /**
+     * Middleware for /admin routes: requests need
+     * `Authorization: Bearer <FXN_ADMIN_TOKEN>`, and are all refused when it is not set
+     */
+    private authorizeAdmin() {
+        const adminToken = this.runtime.getSetting("FXN_ADMIN_TOKEN");
+        return (req: any, res: any, next: any) => {
+            if (!adminToken) {
+                return res.status(503).json({ error: 'FXN_ADMIN_TOKEN is not set' });
+            }
+            if (req.headers.authorization !== `Bearer ${adminToken}`) {
+                return res.status(401).json({ error: 'Invalid admin token' });
+            }
+            next();
+        };
+    }
+
+    /**
+     * Edit the local subscriber registry over HTTP, only with FXN_BACKEND=local
+     * and FXN_ADMIN_TOKEN set
+     */
+    private setupAdminRoutes() {
+        const registry = this.fxnClient.localRegistry;
+        const authorize = this.authorizeAdmin();
+
+        this.app.get('/admin/subscribers', authorize, async (req, res) => {
+            try {
+                res.json({ subscribers: await registry.list() });
+            } catch (error) {
+                console.error('Error loading subscribers:', error);
+                res.status(500).json({ error: 'Failed to load subscribers' });
+            }
+        });
+
+        this.app.put('/admin/subscribers/:publicKey', authorize, async (req, res) => {
+            try {
+                const subscriber = await registry.upsert({
+                    publicKey: req.params.publicKey,
+                    recipient: req.body?.recipient,
+                    status: req.body?.status ?? 'active'
+                });
+                res.json(subscriber);
+            } catch (error) {
+                res.status(400).json({ error: error.message });
+            }
+        });
+
+        this.app.delete('/admin/subscribers/:publicKey', authorize, async (req, res) => {
+            try {
+                const removed = await registry.remove(req.params.publicKey);
+                res.status(removed ? 200 : 404).json({ removed });
+            } catch (error) {
+                console.error('Error removing subscriber:', error);
+                res.status(500).json({ error: 'Failed to remove subscriber' });
+            }
         });
     }
 
     private setupGameLoop() {
-        this.gameManager = new AmongUsManager(this.fxnClient);
+        const dataDir = this.runtime.getSetting("FXN_DATA_DIR") || 'fxn_data';
+        const rewards = new RewardDistributor(this.fxnClient, new PayoutLedger(dataDir));
+        this.gameHost = this.gameModule.createHost({
+            runtime: this.runtime,
+            fxnClient: this.fxnClient,
+            dataDir,
+            rewards
+        });
     }
 
     static async start(runtime: IAgentRuntime) {
-        return new FxnClientInterface(runtime);
+        const client = new FxnClientInterface(runtime);
+        const role = runtime.getSetting("FXN_ROLE");
+        if (role) {
+            await client.setupGame(role);
+        }
+        return client;
     }
 
     async stop() {
         console.log('Stopping client');
+        this.gameHost?.stop();
     }
 }
\ No newline at end of file
@@ -0,0 +1,161 @@
+import fs from "fs";
+import path from "path";
+import {randomUUID} from "crypto";
+import {TransferResult} from "./fxnClient.ts";
+
+/**
+ * Stand-ins for the FXN Solana program and the reward token, selected with
+ * FXN_BACKEND=local, so a host and its players can run on one machine or in CI
+ */
+
+export type LocalSubscriberStatus = 'active' | 'inactive';
+
+export interface LocalSubscriber {
+    publicKey: string;
+    recipient: string;  // The player's endpoint, e.g. http://localhost:3001
+    status: LocalSubscriberStatus;
+}
+
+const STATUSES: LocalSubscriberStatus[] = ['active', 'inactive'];
+
+/**
+ * Subscribers kept in a JSON file, `{ "subscribers": [...] }`. The file is
+ * read on every call so hand edits apply to the next phase.
+ */
+export class LocalSubscriptionRegistry {
+    private writing: Promise<unknown> = Promise.resolve();  // Edits go one after another
+
+    constructor(private readonly filePath: string) {}
+
+    async list(): Promise<LocalSubscriber[]> {
+        if (!fs.existsSync(this.filePath)) {
+            return [];
+        }
+
+        const data = JSON.parse(await fs.promises.readFile(this.filePath, 'utf-8'));
+        return data.subscribers ?? [];
+    }
+
+    /**
+     * Subscribers in the shape the FXN SDK returns them, see FxnClient.getSubscribers
+     */
+    async getSubscribers(): Promise<any[]> {
+        return (await this.list()).map(s => ({
+            subscriber: s.publicKey,
+            subscription: { recipient: s.recipient },
+            status: s.status
+        }));
+    }
+
+    /**
+     * Add a subscriber or change its endpoint or status
+     */
+    async upsert(subscriber: LocalSubscriber): Promise<LocalSubscriber> {
+        validateSubscriber(subscriber);
+        const entry = { publicKey: subscriber.publicKey, recipient: subscriber.recipient, status: subscriber.status };
+        await this.update(subscribers => [...subscribers.filter(s => s.publicKey !== entry.publicKey), entry]);
+        return entry;
+    }
+
+    /**
+     * Returns whether the subscriber was registered
+     */
+    async remove(publicKey: string): Promise<boolean> {
+        let removed = false;
+        await this.update(subscribers => {
+            removed = subscribers.some(s => s.publicKey === publicKey);
+            return subscribers.filter(s => s.publicKey !== publicKey);
+        });
+        return removed;
+    }
+
+    private async update(change: (subscribers: LocalSubscriber[]) => LocalSubscriber[]): Promise<void> {
+        const run = this.writing.catch(() => undefined).then(async () => {
+            const subscribers = change(await this.list());
+            await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.promises.writeFile(this.filePath, JSON.stringify({ subscribers }, null, 2));
+        });
+        this.writing = run;
+        return run;
+    }
+}
+
+function validateSubscriber(subscriber: Partial<LocalSubscriber>): void {
+    const errors: string[] = [];
+    if (typeof subscriber.publicKey !== 'string' || !subscriber.publicKey) {
+        errors.push('publicKey is required');
+    }
+    if (typeof subscriber.recipient !== 'string' || !URL.canParse(subscriber.recipient)) {
+        errors.push('recipient must be a URL');
+    }
+    if (!STATUSES.includes(subscriber.status)) {
+        errors.push(`status must be one of ${STATUSES.join(', ')}`);
+    }
+    if (errors.length > 0) {
+        throw new Error(`Invalid subscriber: ${errors.join('; ')}`);
+    }
+}
+
+export interface SimulatedTransfer {
+    signature: string;
+    publicKey: string;
+    amount: number;
+    timestamp: number;
+}
+
+/**
+ * Reward transfers that only append to a JSONL file. Each gets a made-up
+ * signature so payouts look the same as on chain.
+ */
+export class SimulatedRewardLedger {
+    private readonly filePath: string;
+
+    constructor(dataDir: string) {
+        this.filePath = path.join(dataDir, 'simulated_transfers.jsonl');
+    }
+
+    async transfer(publicKey: string, amount: number): Promise<TransferResult> {
+        const transfer: SimulatedTransfer = {
+            signature: `simulated-${randomUUID()}`,
+            publicKey,
+            amount,
+            timestamp: Date.now()
+        };
+
+        try {
+            await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.promises.appendFile(this.filePath, JSON.stringify(transfer) + '\n');
+        } catch (error) {
+            return { signature: '', status: 'error', message: error.message };
+        }
+
+        return {
+            signature: transfer.signature,
+            status: 'success',
+            message: `Simulated transfer of ${amount} tokens to ${publicKey}`
+        };
+    }
+
+    async list(): Promise<SimulatedTransfer[]> {
+        if (!fs.existsSync(this.filePath)) {
+            return [];
+        }
+
+        const data = await fs.promises.readFile(this.filePath, 'utf-8');
+        return data
+            .split('\n')
+            .filter(line => line.trim())
+            .map(line => JSON.parse(line) as SimulatedTransfer);
+    }
+
+    /**
+     * publicKey -> total tokens transferred
+     */
+    async getBalances(): Promise<Record<string, number>> {
+        const balances: Record<string, number> = {};
+        (await this.list()).forEach(t => {
+            balances[t.publicKey] = (balances[t.publicKey] || 0) + t.amount;
+        });
+        return balances;
+    }
+}
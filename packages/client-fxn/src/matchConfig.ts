@@ -0,0 +1,223 @@
+import {IAgentRuntime} from '@ai16z/eliza/src/types.ts';
+import {GameRules} from "./types.ts";
+import {BOT_STRATEGIES} from "./amongUsBots.ts";
+
+export interface MatchConfig {
+    minPlayers: number;
+    maxPlayers: number;
+    impostorRatio: number;  // Share of seats given to impostors, rounded down, at least one
+    roomCount: number;  // Rooms are arranged in a ring of this size
+    actionDuration: number;  // ms
+    movementDuration: number;  // ms
+    votingDuration: number;  // ms
+    killCooldown: number;  // Rounds an impostor must wait after a kill
+    taskCount: number;  // Tasks the crew can finish to win, 0 disables tasks
+    fillWithBots: boolean;  // Pad the lobby with bots up to minPlayers
+    botStrategies: string[];  // Strategy of each bot seat in order, the last one plays any further seats
+    minSubscribers: number;  // Real players needed before the lobby starts a countdown
+    lobbyPollInterval: number;  // ms between subscriber checks while waiting in the lobby
+    startCountdown: number;  // ms between announcing a match and starting it
+    nextMatchDelay: number;  // ms between the end of a match and reopening the lobby
+    crewReward: number;  // Reward tokens per winning crewmate, 0 disables crew payouts
+    impostorReward: number;  // Reward tokens per winning impostor, 0 disables impostor payouts
+    rewardDeadWinners: boolean;  // Also pay winners who were killed or ejected
+    moveSubmission: 'response' | 'async';  // Moves come back in the broadcast's HTTP response, or are POSTed to movesUrl
+    movesUrl: string;  // The host's public /moves endpoint, required for async submission
+    afkAfterMissedPhases: number;  // Phases in a row a player may miss before going AFK, 0 never marks anyone
+    afkPolicy: 'bot' | 'disconnect';  // An AFK seat is played by the first bot strategy, or just passes
+}
+
+export const DEFAULT_MATCH_CONFIG: MatchConfig = {
+    minPlayers: 6,
+    maxPlayers: 10,
+    impostorRatio: 1 / 3,
+    roomCount: 6,
+    actionDuration: 30 * 1000,
+    movementDuration: 15 * 1000,
+    votingDuration: 45 * 1000,
+    killCooldown: 0,
+    taskCount: 6,
+    fillWithBots: true,
+    botStrategies: ['heuristic'],
+    minSubscribers: 1,
+    lobbyPollInterval: 30 * 1000,
+    startCountdown: 30 * 1000,
+    nextMatchDelay: 60 * 1000,
+    crewReward: 0,
+    impostorReward: 0,
+    rewardDeadWinners: false,
+    moveSubmission: 'response',
+    movesUrl: '',
+    afkAfterMissedPhases: 3,
+    afkPolicy: 'bot'
+};
+
+/**
+ * Individual settings override the matching field of FXN_MATCH_CONFIG
+ */
+const SETTING_KEYS: Record<keyof MatchConfig, string> = {
+    minPlayers: 'FXN_MIN_PLAYERS',
+    maxPlayers: 'FXN_MAX_PLAYERS',
+    impostorRatio: 'FXN_IMPOSTOR_RATIO',
+    roomCount: 'FXN_ROOM_COUNT',
+    actionDuration: 'FXN_ACTION_DURATION_MS',
+    movementDuration: 'FXN_MOVEMENT_DURATION_MS',
+    votingDuration: 'FXN_VOTING_DURATION_MS',
+    killCooldown: 'FXN_KILL_COOLDOWN',
+    taskCount: 'FXN_TASK_COUNT',
+    fillWithBots: 'FXN_FILL_WITH_BOTS',
+    botStrategies: 'FXN_BOT_STRATEGIES',  // Comma separated, e.g. heuristic,heuristic,random
+    minSubscribers: 'FXN_MIN_SUBSCRIBERS',
+    lobbyPollInterval: 'FXN_LOBBY_POLL_INTERVAL_MS',
+    startCountdown: 'FXN_START_COUNTDOWN_MS',
+    nextMatchDelay: 'FXN_NEXT_MATCH_DELAY_MS',
+    crewReward: 'FXN_CREW_REWARD',
+    impostorReward: 'FXN_IMPOSTOR_REWARD',
+    rewardDeadWinners: 'FXN_REWARD_DEAD_WINNERS',
+    moveSubmission: 'FXN_MOVE_SUBMISSION',
+    movesUrl: 'FXN_MOVES_URL',
+    afkAfterMissedPhases: 'FXN_AFK_AFTER_MISSED_PHASES',
+    afkPolicy: 'FXN_AFK_POLICY'
+};
+
+function parseSetting(key: keyof MatchConfig, value: any): number | boolean | string | string[] {
+    if (Array.isArray(DEFAULT_MATCH_CONFIG[key])) {
+        return Array.isArray(value) ? value : String(value).split(',').map(item => item.trim());
+    }
+    switch (typeof DEFAULT_MATCH_CONFIG[key]) {
+        case 'boolean':
+            return value === true || String(value).toLowerCase() === 'true';
+        case 'string':
+            return String(value);
+        default:
+            return Number(value);
+    }
+}
+
+/**
+ * Load the match config from character settings or env. FXN_MATCH_CONFIG may
+ * hold a (JSON) object with any MatchConfig fields.
+ */
+export function loadMatchConfig(runtime: Pick<IAgentRuntime, 'getSetting'>): MatchConfig {
+    let overrides: Partial<MatchConfig> = {};
+
+    const rawConfig = runtime.getSetting("FXN_MATCH_CONFIG") as any;
+    if (rawConfig) {
+        try {
+            overrides = typeof rawConfig === 'string' ? JSON.parse(rawConfig) : rawConfig;
+        } catch (error) {
+            throw new Error(`Invalid FXN_MATCH_CONFIG: ${error.message}`);
+        }
+    }
+
+    const config: MatchConfig = { ...DEFAULT_MATCH_CONFIG, ...overrides };
+    (Object.keys(SETTING_KEYS) as Array<keyof MatchConfig>).forEach((key) => {
+        const value = runtime.getSetting(SETTING_KEYS[key]);
+        if (value !== null && value !== undefined && value !== '') {
+            (config as any)[key] = parseSetting(key, value);
+        }
+    });
+
+    validateMatchConfig(config);
+    return config;
+}
+
+export function getImpostorCount(config: MatchConfig, playerCount: number): number {
+    return Math.max(1, Math.floor(playerCount * config.impostorRatio));
+}
+
+/**
+ * The strategy the bot in the given bot seat (0 for the first) plays
+ */
+export function getBotStrategy(config: MatchConfig, botIndex: number): string {
+    return config.botStrategies[Math.min(botIndex, config.botStrategies.length - 1)];
+}
+
+/**
+ * Throws if the config can't produce a playable game
+ */
+export function validateMatchConfig(config: MatchConfig): void {
+    const errors: string[] = [];
+    const isInteger = (value: number) => Number.isInteger(value);
+
+    if (!isInteger(config.minPlayers) || config.minPlayers < 3) {
+        errors.push('minPlayers must be an integer of at least 3');
+    }
+    if (!isInteger(config.maxPlayers) || config.maxPlayers < config.minPlayers) {
+        errors.push('maxPlayers must be an integer no smaller than minPlayers');
+    }
+    if (!(config.impostorRatio > 0 && config.impostorRatio < 0.5)) {
+        errors.push('impostorRatio must be greater than 0 and less than 0.5');
+    }
+    if (!isInteger(config.roomCount) || config.roomCount < 2) {
+        errors.push('roomCount must be an integer of at least 2');
+    }
+    (['actionDuration', 'movementDuration', 'votingDuration'] as const).forEach((key) => {
+        if (!isInteger(config[key]) || config[key] <= 0) {
+            errors.push(`${key} must be a positive number of milliseconds`);
+        }
+    });
+    (['killCooldown', 'taskCount', 'afkAfterMissedPhases'] as const).forEach((key) => {
+        if (!isInteger(config[key]) || config[key] < 0) {
+            errors.push(`${key} must be a non-negative integer`);
+        }
+    });
+    (['fillWithBots', 'rewardDeadWinners'] as const).forEach((key) => {
+        if (typeof config[key] !== 'boolean') {
+            errors.push(`${key} must be a boolean`);
+        }
+    });
+    if (!Array.isArray(config.botStrategies) || config.botStrategies.length === 0 ||
+        !config.botStrategies.every(strategy => BOT_STRATEGIES[strategy])) {
+        errors.push(`botStrategies must list strategies out of ${Object.keys(BOT_STRATEGIES).join(', ')}`);
+    }
+    if (!isInteger(config.minSubscribers) || config.minSubscribers < 1 || config.minSubscribers > config.maxPlayers) {
+        errors.push('minSubscribers must be an integer between 1 and maxPlayers');
+    }
+    if (!config.fillWithBots && config.minSubscribers < config.minPlayers) {
+        errors.push('minSubscribers must be at least minPlayers when bots do not fill empty seats');
+    }
+    if (!isInteger(config.lobbyPollInterval) || config.lobbyPollInterval <= 0) {
+        errors.push('lobbyPollInterval must be a positive number of milliseconds');
+    }
+    (['startCountdown', 'nextMatchDelay'] as const).forEach((key) => {
+        if (!isInteger(config[key]) || config[key] < 0) {
+            errors.push(`${key} must be a non-negative number of milliseconds`);
+        }
+    });
+    (['crewReward', 'impostorReward'] as const).forEach((key) => {
+        if (!Number.isFinite(config[key]) || config[key] < 0) {
+            errors.push(`${key} must be a non-negative number of tokens`);
+        }
+    });
+    if (config.moveSubmission !== 'response' && config.moveSubmission !== 'async') {
+        errors.push('moveSubmission must be response or async');
+    }
+    if (config.moveSubmission === 'async' && !URL.canParse(config.movesUrl)) {
+        errors.push('movesUrl must be a URL when moveSubmission is async');
+    }
+    if (config.afkPolicy !== 'bot' && config.afkPolicy !== 'disconnect') {
+        errors.push('afkPolicy must be bot or disconnect');
+    }
+
+    // Impostors must start outnumbered at every lobby size
+    if (errors.length === 0) {
+        const impostors = getImpostorCount(config, config.minPlayers);
+        if (impostors * 2 >= config.minPlayers) {
+            errors.push(`minPlayers ${config.minPlayers} leaves ${impostors} impostor(s) without a crew majority`);
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid match config: ${errors.join('; ')}`);
+    }
+}
+
+export function getGameRules(config: MatchConfig, playerCount: number): GameRules {
+    return {
+        roomCount: config.roomCount,
+        impostorCount: getImpostorCount(config, playerCount),
+        killCooldown: config.killCooldown,
+        taskCount: config.taskCount
+    };
+}
@@ -0,0 +1,90 @@
+import fs from "fs";
+import path from "path";
+import {GameEvent, GameState, PlayerRole, VotingRecord} from "./types.ts";
+
+export interface MatchParticipant {
+    publicKey: string;
+    role: PlayerRole['type'];
+    isBot: boolean;
+    survived: boolean;
+}
+
+export interface MatchRecord {
+    matchId: string;
+    seed: number | string;
+    startedAt: number;
+    endedAt: number;
+    participants: MatchParticipant[];
+    rounds: number;
+    kills: Array<{ round: number; killer: string; victim: string }>;
+    meetings: VotingRecord[];
+    winner: GameState['winner'];
+    invalidDecisions: Record<string, number>;  // publicKey -> decisions the host rejected
+}
+
+/**
+ * Append-only store of finished matches, one JSON record per line. Each game
+ * keeps its records in its own file.
+ */
+export class MatchHistory<T extends { matchId: string } = MatchRecord> {
+    private readonly filePath: string;
+
+    constructor(dataDir: string, fileName = 'matches.jsonl') {
+        this.filePath = path.join(dataDir, fileName);
+    }
+
+    async save(record: T): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.appendFile(this.filePath, JSON.stringify(record) + '\n');
+    }
+
+    /**
+     * Most recent matches first
+     */
+    async list(limit?: number): Promise<T[]> {
+        if (!fs.existsSync(this.filePath)) {
+            return [];
+        }
+
+        const data = await fs.promises.readFile(this.filePath, 'utf-8');
+        const records = data
+            .split('\n')
+            .filter(line => line.trim())
+            .map(line => JSON.parse(line) as T)
+            .reverse();
+
+        return limit ? records.slice(0, limit) : records;
+    }
+}
+
+/**
+ * Build the record for a finished game from its final state and every event it produced
+ */
+export function buildMatchRecord(
+    matchId: string,
+    seed: number | string,
+    startedAt: number,
+    state: GameState,
+    events: Array<GameEvent & { round: number }>,
+    invalidDecisions: Record<string, number> = {}
+): MatchRecord {
+    return {
+        matchId,
+        seed,
+        startedAt,
+        endedAt: Date.now(),
+        participants: Array.from(state.players.values()).map(p => ({
+            publicKey: p.publicKey,
+            role: p.role.type,
+            isBot: p.publicKey.startsWith('bot-'),
+            survived: p.isAlive
+        })),
+        rounds: state.currentRound,
+        kills: events
+            .filter((e): e is Extract<GameEvent, { type: 'kill' }> & { round: number } => e.type === 'kill')
+            .map(e => ({ round: e.round, killer: e.killer, victim: e.victim })),
+        meetings: state.voteHistory,
+        winner: state.winner,
+        invalidDecisions
+    };
+}
@@ -0,0 +1,129 @@
+import {GameEvent, GameState, Observation, ObservationLogs, PlayerState} from "./types.ts";
+
+function alivePlayers(state: GameState): PlayerState[] {
+    return Array.from(state.players.values()).filter(p => p.isAlive);
+}
+
+function ejectedPlayers(state: GameState): Set<string> {
+    return new Set(state.voteHistory.map(v => v.ejected).filter((e): e is string => !!e));
+}
+
+/**
+ * Whether a player's log already accounts for a death, so a body is only found once
+ */
+function knowsOfDeath(log: Observation[], victim: string): boolean {
+    return log.some(o => (o.type === 'body_found' || o.type === 'witnessed_kill') && o.victim === victim);
+}
+
+/**
+ * Extend each player's observation log with what they could perceive of the
+ * events from one advancePhase (or createGame) call. `before` is the state the
+ * events were resolved from, `after` the state they produced. Rooms come from
+ * `before` for kills and departures and from `after` for arrivals and room
+ * snapshots. Returns new logs; the input is not modified.
+ */
+export function observeEvents(
+    logs: ObservationLogs,
+    before: GameState | undefined,
+    after: GameState,
+    events: GameEvent[]
+): ObservationLogs {
+    const next: ObservationLogs = {};
+    after.players.forEach((_, publicKey) => {
+        next[publicKey] = [...(logs[publicKey] || [])];
+    });
+    const round = before?.currentRound ?? after.currentRound;
+    const tell = (publicKey: string, observation: Observation) => next[publicKey]?.push(observation);
+    const tellEveryone = (observation: Observation) => Object.keys(next).forEach(key => tell(key, observation));
+    const roomBefore = (publicKey: string) => before?.players.get(publicKey)?.role.room;
+
+    events.forEach(event => {
+        switch (event.type) {
+            case 'kill':
+                // Killers know their own kills; anyone else alive in the room sees it happen
+                Array.from(before?.players.values() || [])
+                    .filter(p => p.isAlive && p.publicKey !== event.victim && p.role.room === event.room)
+                    .forEach(p => tell(p.publicKey, {
+                        type: 'witnessed_kill', round, room: event.room, killer: event.killer, victim: event.victim
+                    }));
+                break;
+
+            case 'movement':
+                alivePlayers(after)
+                    .filter(p => p.publicKey !== event.publicKey)
+                    .forEach(p => {
+                        if (roomBefore(p.publicKey) === event.from) {
+                            tell(p.publicKey, { type: 'player_left', round, publicKey: event.publicKey, from: event.from, to: event.to });
+                        }
+                        if (p.role.room === event.to) {
+                            tell(p.publicKey, { type: 'player_arrived', round, publicKey: event.publicKey, from: event.from, to: event.to });
+                        }
+                    });
+                break;
+
+            case 'round_started': {
+                // Rooms are settled for the round, everyone takes a look around
+                const ejected = ejectedPlayers(after);
+                alivePlayers(after).forEach(p => {
+                    const room = p.role.room;
+                    const inRoom = Array.from(after.players.values())
+                        .filter(other => other.publicKey !== p.publicKey && other.role.room === room);
+                    const bodies = inRoom
+                        .filter(other => !other.isAlive && !ejected.has(other.publicKey))
+                        .map(other => other.publicKey);
+
+                    bodies
+                        .filter(victim => !knowsOfDeath(next[p.publicKey], victim))
+                        .forEach(victim => tell(p.publicKey, { type: 'body_found', round: event.round, room, victim }));
+                    tell(p.publicKey, {
+                        type: 'room_occupants',
+                        round: event.round,
+                        room,
+                        players: inRoom.filter(other => other.isAlive).map(other => other.publicKey),
+                        bodies
+                    });
+                });
+                break;
+            }
+
+            case 'meeting_called':
+                tellEveryone({
+                    type: 'meeting_called',
+                    round,
+                    accusedPlayer: event.accusedPlayer,
+                    reportedBody: event.reportedBody,
+                    reporter: event.reporter,
+                    accusations: event.accusations
+                });
+                break;
+
+            case 'vote_tallied':
+                tellEveryone({ type: 'vote_tallied', round, record: event.record });
+                break;
+
+            case 'ejected':
+                // Roles of ejected players stay secret
+                tellEveryone({ type: 'ejected', round, publicKey: event.publicKey });
+                break;
+
+            case 'game_over':
+                tellEveryone({ type: 'game_over', round, winner: event.winner });
+                break;
+        }
+    });
+
+    return next;
+}
+
+/**
+ * Players this observer knows to be dead: bodies found or reported, kills witnessed and ejections
+ */
+export function getKnownDeaths(log: Observation[]): Set<string> {
+    const dead = new Set<string>();
+    log.forEach(o => {
+        if (o.type === 'body_found' || o.type === 'witnessed_kill') dead.add(o.victim);
+        if (o.type === 'ejected') dead.add(o.publicKey);
+        if (o.type === 'meeting_called' && o.reportedBody) dead.add(o.reportedBody);
+    });
+    return dead;
+}
@@ -0,0 +1,57 @@
+import {IAgentRuntime, UUID} from '@ai16z/eliza/src/types.ts';
+import {stringToUuid} from "@ai16z/eliza/src/uuid.ts";
+import {MemoryEvent} from "./gameModule.ts";
+
+/**
+ * What a player agent has seen of its matches, kept in the runtime's
+ * messageManager with one room per match so it outlives the single view a
+ * decision is made from, and a restart of the agent.
+ */
+export class PlayerMemory {
+    constructor(private runtime: IAgentRuntime) {}
+
+    private roomId(matchId: string): UUID {
+        return stringToUuid(`fxn-match-${matchId}-${this.runtime.agentId}`);
+    }
+
+    /**
+     * Store the events of a view. Games send the events seen so far, oldest
+     * first, so event i of a match is always the same event and is stored once.
+     */
+    async remember(matchId: string, events: MemoryEvent[]): Promise<void> {
+        const roomId = this.roomId(matchId);
+        await this.runtime.ensureRoomExists(roomId);
+
+        const stored = new Set((await this.load(roomId)).map(memory => memory.content.index));
+        for (let index = 0; index < events.length; index++) {
+            if (stored.has(index)) continue;
+
+            const { text, event } = events[index];
+            await this.runtime.messageManager.createMemory({
+                id: stringToUuid(`fxn-memory-${matchId}-${index}-${this.runtime.agentId}`),
+                userId: this.runtime.agentId,
+                agentId: this.runtime.agentId,
+                roomId,
+                content: { text, event, index },
+                createdAt: Date.now()
+            });
+        }
+    }
+
+    /**
+     * Every event remembered from a match, oldest first
+     */
+    async recall(matchId: string): Promise<any[]> {
+        const memories = await this.load(this.roomId(matchId));
+        return memories
+            .sort((a, b) => (a.content.index as number) - (b.content.index as number))
+            .map(memory => memory.content.event);
+    }
+
+    private load(roomId: UUID) {
+        return this.runtime.messageManager.getMemoriesByRoomIds({
+            roomIds: [roomId],
+            agentId: this.runtime.agentId
+        });
+    }
+}
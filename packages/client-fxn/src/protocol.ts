@@ -0,0 +1,121 @@
+import {randomUUID} from "crypto";
+import {Keypair} from "@solana/web3.js";
+import {signMessage, verifyMessage} from "./utils/signingUtils.ts";
+
+/**
+ * Which decision a message is about
+ */
+export interface EnvelopeContext {
+    matchId: string;
+    round: number;
+    phase: string;
+}
+
+/**
+ * Carried by every signed message between host and players. The nonce makes
+ * each message unique and the expiry bounds how long a captured one can be
+ * replayed.
+ */
+export interface Envelope extends EnvelopeContext {
+    nonce: string;
+    expiresAt: number;  // Epoch ms
+}
+
+export interface SignedMessage<T = any> {
+    version: number;  // SIGNING_VERSION
+    payload: T;
+    signature: string;  // bs58 ed25519 signature of the payload's canonical JSON
+    publicKey: string;
+}
+
+/**
+ * A player's answer to a game update. It echoes the update's envelope so the
+ * signature covers which request it answers.
+ */
+export type PlayerResponse = Envelope & { decision: any };
+
+export function createEnvelope(context: EnvelopeContext, expiresAt: number): Envelope {
+    return { ...context, nonce: randomUUID(), expiresAt };
+}
+
+/**
+ * Remembers the nonces of accepted messages until they expire, so each
+ * message is accepted at most once
+ */
+export class NonceRegistry {
+    private seen = new Map<string, number>();  // nonce -> expiresAt
+
+    /**
+     * Accept a message and mark its nonce used. Returns why it is refused,
+     * or null if it is fresh.
+     */
+    accept(envelope: Partial<Envelope>, now = Date.now()): string | null {
+        this.prune(now);
+        if (typeof envelope?.nonce !== 'string' || !envelope.nonce || !Number.isFinite(envelope.expiresAt)) {
+            return 'Message has no nonce or expiry';
+        }
+        if (envelope.expiresAt <= now) {
+            return 'Message expired';
+        }
+        if (this.seen.has(envelope.nonce)) {
+            return 'Message already received';
+        }
+
+        this.seen.set(envelope.nonce, envelope.expiresAt);
+        return null;
+    }
+
+    // Expired messages are refused anyway, their nonces can go
+    private prune(now: number): void {
+        for (const [nonce, expiresAt] of this.seen) {
+            if (expiresAt <= now) {
+                this.seen.delete(nonce);
+            }
+        }
+    }
+}
+
+export function signResponse(keypair: Keypair, envelope: Envelope, decision: any): Promise<SignedMessage<PlayerResponse>> {
+    const { matchId, round, phase, nonce, expiresAt } = envelope;
+    return signMessage(keypair, { matchId, round, phase, nonce, expiresAt, decision });
+}
+
+export type DecisionResult = { decision: any } | { error: string };
+
+/**
+ * Check a player's reply to the game update sent with `sent`: it must be
+ * signed with the subscriber's key, answer that exact update, arrive before
+ * it expires and only once
+ */
+export async function verifyResponse(
+    message: SignedMessage<PlayerResponse>,
+    publicKey: string,
+    sent: Envelope,
+    nonces: NonceRegistry,
+    now = Date.now()
+): Promise<DecisionResult> {
+    if (!message?.payload || typeof message.signature !== 'string') {
+        return { error: 'Response is not signed' };
+    }
+    if (message.publicKey !== publicKey) {
+        return { error: `Response signed by ${message.publicKey}, not the subscriber key` };
+    }
+
+    try {
+        const { isValid } = await verifyMessage(message);
+        if (!isValid) {
+            return { error: 'Invalid response signature' };
+        }
+    } catch (error) {
+        return { error: error.message };
+    }
+
+    const { payload } = message;
+    if (payload.matchId !== sent.matchId || payload.round !== sent.round ||
+        payload.phase !== sent.phase || payload.nonce !== sent.nonce || payload.expiresAt !== sent.expiresAt) {
+        return { error: `Response answers another request (${payload.matchId} round ${payload.round} ${payload.phase})` };
+    }
+
+    const refused = nonces.accept(payload, now);
+    return refused ? { error: refused } : { decision: payload.decision };
+}
@@ -0,0 +1,107 @@
+import {MatchRecord} from "./matchHistory.ts";
+
+export const INITIAL_RATING = 1500;
+const K_FACTOR = 32;  // Most a rating moves in one match
+
+export interface RoleStats {
+    games: number;
+    wins: number;
+}
+
+export interface PlayerStats {
+    publicKey: string;
+    rating: number;  // Elo, rounded
+    gamesPlayed: number;
+    wins: number;
+    crewmate: RoleStats;
+    impostor: RoleStats;
+    kills: number;
+    correctEjections: number;  // Votes cast to eject a player who was an impostor
+    lastPlayedAt: number;
+}
+
+/**
+ * Stats and ratings of every real player, replayed from the finished matches
+ * oldest first, best rated first.
+ *
+ * Ratings are team Elo: each side plays as the average rating of its seats
+ * (bots count as INITIAL_RATING and are never rated) and every player on a
+ * side moves by the side's surprise. Roles are drawn at random, so over enough
+ * matches everyone plays both sides of the crew/impostor balance.
+ */
+export function buildPlayerStats(records: MatchRecord[]): PlayerStats[] {
+    const stats = new Map<string, PlayerStats>();
+    const statsOf = (publicKey: string) => {
+        if (!stats.has(publicKey)) {
+            stats.set(publicKey, {
+                publicKey,
+                rating: INITIAL_RATING,
+                gamesPlayed: 0,
+                wins: 0,
+                crewmate: { games: 0, wins: 0 },
+                impostor: { games: 0, wins: 0 },
+                kills: 0,
+                correctEjections: 0,
+                lastPlayedAt: 0
+            });
+        }
+        return stats.get(publicKey);
+    };
+
+    [...records].sort((a, b) => a.endedAt - b.endedAt).forEach(record => {
+        const winningRole = record.winner === 'crew' ? 'crewmate' : 'impostor';
+        const players = record.participants.filter(p => !p.isBot);
+        const roles = new Map(record.participants.map(p => [p.publicKey, p.role]));
+
+        players.forEach(p => {
+            const entry = statsOf(p.publicKey);
+            entry.gamesPlayed++;
+            entry[p.role].games++;
+            entry.lastPlayedAt = Math.max(entry.lastPlayedAt, record.endedAt);
+            if (record.winner && p.role === winningRole) {
+                entry.wins++;
+                entry[p.role].wins++;
+            }
+        });
+        record.kills
+            .filter(kill => stats.has(kill.killer))
+            .forEach(kill => statsOf(kill.killer).kills++);
+        record.meetings
+            .filter(meeting => meeting.ejected && roles.get(meeting.ejected) === 'impostor')
+            .forEach(meeting => meeting.votes
+                .filter(vote => vote.target === meeting.ejected && stats.has(vote.voter))
+                .forEach(vote => statsOf(vote.voter).correctEjections++));
+
+        if (record.winner) {
+            updateRatings(record, stats, winningRole);
+        }
+    });
+
+    return Array.from(stats.values())
+        .map(entry => ({ ...entry, rating: Math.round(entry.rating) }))
+        .sort((a, b) => b.rating - a.rating || b.wins - a.wins);
+}
+
+function updateRatings(record: MatchRecord, stats: Map<string, PlayerStats>, winningRole: string): void {
+    const ratingOf = (publicKey: string) => stats.get(publicKey)?.rating ?? INITIAL_RATING;
+    const sideRating = (role: string) => {
+        const side = record.participants.filter(p => p.role === role);
+        return side.reduce((sum, p) => sum + ratingOf(p.publicKey), 0) / Math.max(1, side.length);
+    };
+
+    const expectedCrew = 1 / (1 + 10 ** ((sideRating('impostor') - sideRating('crewmate')) / 400));
+    const crewScore = winningRole === 'crewmate' ? 1 : 0;
+    record.participants
+        .filter(p => !p.isBot)
+        .forEach(p => {
+            const surprise = p.role === 'crewmate' ? crewScore - expectedCrew : expectedCrew - crewScore;
+            stats.get(p.publicKey).rating += K_FACTOR * surprise;
+        });
+}
+
+/**
+ * A player's rating, INITIAL_RATING until they finish a match
+ */
+export function getRating(stats: PlayerStats[], publicKey: string): number {
+    return stats.find(entry => entry.publicKey === publicKey)?.rating ?? INITIAL_RATING;
+}
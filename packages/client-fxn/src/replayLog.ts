@@ -0,0 +1,168 @@
+import fs from "fs";
+import path from "path";
+import {GameEvent, GameRules, PlayerInput} from "./types.ts";
+import {MatchParticipant} from "./matchHistory.ts";
+import {Presence} from "./afk.ts";
+
+/**
+ * Where in the match an entry was written. Events carry the round and phase
+ * they resolved.
+ */
+export interface ReplayContext {
+    matchId: string;
+    round: number;
+    phase: string;
+}
+
+export type ReplayRecord =
+    | { type: 'match_started'; seed: number | string; rules: GameRules; players: string[]; events: GameEvent[] }
+    | { type: 'match_resumed' }
+    | { type: 'view_sent'; publicKey: string; view: any }
+    | { type: 'response_received'; publicKey: string; response: any }
+    | { type: 'decision'; publicKey: string; input?: PlayerInput; error?: string }
+    | { type: 'events'; events: GameEvent[] }
+    | { type: 'presence'; publicKey: string; presence: Presence; missedPhases: number }
+    | { type: 'match_over'; winner?: 'crew' | 'impostors'; participants: MatchParticipant[] };
+
+/**
+ * One line of a match's replay log
+ */
+export type ReplayEntry = ReplayContext & { timestamp: number } & ReplayRecord;
+
+/**
+ * Append-only replay logs, one JSONL file per match under dataDir/replays.
+ * Writes are queued so entries stay in order, and a failed write is only
+ * logged: replays must never hold up or break a match.
+ */
+export class ReplayLog {
+    private readonly dir: string;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(dataDir: string) {
+        this.dir = path.join(dataDir, 'replays');
+    }
+
+    private filePath(matchId: string): string {
+        // Match ids are UUIDs; anything else is refused rather than used as a path
+        if (!/^[\w-]+$/.test(matchId)) {
+            throw new Error(`Invalid match id ${matchId}`);
+        }
+        return path.join(this.dir, `${matchId}.jsonl`);
+    }
+
+    append(context: ReplayContext, record: ReplayRecord): void {
+        const line = JSON.stringify({ ...context, timestamp: Date.now(), ...record }) + '\n';
+        this.writing = this.writing.then(async () => {
+            try {
+                await fs.promises.mkdir(this.dir, { recursive: true });
+                await fs.promises.appendFile(this.filePath(context.matchId), line);
+            } catch (error) {
+                console.error(`Failed to write replay entry for match ${context.matchId}:`, error);
+            }
+        });
+    }
+
+    /**
+     * Resolves once every entry appended so far is on disk
+     */
+    flush(): Promise<void> {
+        return this.writing;
+    }
+
+    async load(matchId: string): Promise<ReplayEntry[] | null> {
+        const filePath = this.filePath(matchId);
+        if (!fs.existsSync(filePath)) {
+            return null;
+        }
+
+        const data = await fs.promises.readFile(filePath, 'utf-8');
+        return data
+            .split('\n')
+            .filter(line => line.trim())
+            .map(line => JSON.parse(line) as ReplayEntry);
+    }
+}
+
+/**
+ * What one player saw and did in a phase
+ */
+export interface ReplayPerspective {
+    view?: any;
+    response?: any;
+    decision?: { input?: PlayerInput; error?: string };
+    presence?: Presence;  // Set when the player went AFK or came back at the end of the phase
+}
+
+export interface ReplayStep {
+    round: number;
+    phase: string;
+    events: GameEvent[];  // How the phase resolved
+    perspectives: Record<string, ReplayPerspective>;  // publicKey -> what that player saw and did
+}
+
+export interface Replay {
+    matchId: string;
+    seed?: number | string;
+    rules?: GameRules;
+    players: string[];
+    setup: GameEvent[];  // Role assignment and the first round starting
+    steps: ReplayStep[];  // One per phase played, in order
+    winner?: 'crew' | 'impostors';
+    finished: boolean;
+}
+
+/**
+ * Group a match's log into phases that can be stepped through one at a time
+ */
+export function buildReplay(matchId: string, entries: ReplayEntry[]): Replay {
+    const replay: Replay = { matchId, players: [], setup: [], steps: [], finished: false };
+    const steps = new Map<string, ReplayStep>();
+    const stepFor = (round: number, phase: string): ReplayStep => {
+        const key = `${round}:${phase}`;
+        if (!steps.has(key)) {
+            const step: ReplayStep = { round, phase, events: [], perspectives: {} };
+            steps.set(key, step);
+            replay.steps.push(step);
+        }
+        return steps.get(key);
+    };
+    const perspective = (entry: ReplayEntry & { publicKey: string }): ReplayPerspective => {
+        const step = stepFor(entry.round, entry.phase);
+        step.perspectives[entry.publicKey] ??= {};
+        return step.perspectives[entry.publicKey];
+    };
+
+    entries.forEach(entry => {
+        switch (entry.type) {
+            case 'match_started':
+                replay.seed = entry.seed;
+                replay.rules = entry.rules;
+                replay.players = entry.players;
+                replay.setup = entry.events;
+                break;
+            case 'view_sent':
+                perspective(entry).view = entry.view;
+                break;
+            case 'response_received':
+                perspective(entry).response = entry.response;
+                break;
+            case 'decision':
+                perspective(entry).decision = { input: entry.input, error: entry.error };
+                break;
+            case 'events':
+                stepFor(entry.round, entry.phase).events.push(...entry.events);
+                break;
+            case 'presence':
+                perspective(entry).presence = entry.presence;
+                break;
+            case 'match_over':
+                replay.winner = entry.winner;
+                replay.finished = true;
+                break;
+        }
+    });
+
+    // The final broadcast after game over asks nobody for anything
+    replay.steps = replay.steps.filter(step => step.phase !== 'complete');
+    return replay;
+}
@@ -0,0 +1,176 @@
+import fs from "fs";
+import path from "path";
+import {FxnClient} from "./fxnClient.ts";
+import {MatchConfig} from "./matchConfig.ts";
+import {MatchRecord} from "./matchHistory.ts";
+
+const MAX_PAYOUT_ATTEMPTS = 5;
+
+/**
+ * queued: owed, not sent yet
+ * sending: a transfer is in flight
+ * paid: transfer confirmed
+ * failed: transfer errored, retried up to MAX_PAYOUT_ATTEMPTS
+ * unconfirmed: the host stopped mid-transfer; it may have landed, so it is never retried automatically
+ */
+export type PayoutStatus = 'queued' | 'sending' | 'paid' | 'failed' | 'unconfirmed';
+
+export interface Payout {
+    payoutId: string;  // One payout per player per match
+    matchId: string;
+    publicKey: string;
+    amount: number;
+    status: PayoutStatus;
+    attempts: number;
+    signature?: string;
+    error?: string;
+    updatedAt: number;
+}
+
+/**
+ * Who a finished match pays and how much, according to the config's reward policy.
+ * Bots are never paid.
+ */
+export function getRewardRecipients(
+    record: MatchRecord,
+    config: MatchConfig
+): Array<{ publicKey: string; amount: number }> {
+    if (!record.winner) {
+        return [];
+    }
+
+    const winningRole = record.winner === 'crew' ? 'crewmate' : 'impostor';
+    const amount = record.winner === 'crew' ? config.crewReward : config.impostorReward;
+    if (amount <= 0) {
+        return [];
+    }
+
+    return record.participants
+        .filter(p => p.role === winningRole && !p.isBot)
+        .filter(p => p.survived || config.rewardDeadWinners)
+        .map(p => ({ publicKey: p.publicKey, amount }));
+}
+
+/**
+ * Append-only log of payout state changes, one JSON entry per line. The last
+ * entry for a payout id is its current state.
+ */
+export class PayoutLedger {
+    private readonly filePath: string;
+
+    constructor(dataDir: string) {
+        this.filePath = path.join(dataDir, 'payouts.jsonl');
+    }
+
+    async record(payout: Payout): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.appendFile(this.filePath, JSON.stringify(payout) + '\n');
+    }
+
+    /**
+     * Current state of every payout, oldest first
+     */
+    async list(): Promise<Payout[]> {
+        if (!fs.existsSync(this.filePath)) {
+            return [];
+        }
+
+        const data = await fs.promises.readFile(this.filePath, 'utf-8');
+        const payouts = new Map<string, Payout>();
+        data
+            .split('\n')
+            .filter(line => line.trim())
+            .forEach(line => {
+                const payout = JSON.parse(line) as Payout;
+                payouts.set(payout.payoutId, payout);
+            });
+
+        return Array.from(payouts.values());
+    }
+}
+
+/**
+ * Pays match rewards through the ledger so a retry or restart never pays a
+ * player twice for the same match
+ */
+export class RewardDistributor {
+    private processing: Promise<Payout[]> | null = null;  // The latest run
+
+    constructor(
+        private fxnClient: FxnClient,
+        private ledger: PayoutLedger
+    ) {}
+
+    /**
+     * Record the rewards a match owes. Players already owed for the match are
+     * skipped, so queuing the same match twice is a no-op.
+     */
+    async queuePayouts(matchId: string, recipients: Array<{ publicKey: string; amount: number }>): Promise<void> {
+        const existing = new Set((await this.ledger.list()).map(p => p.payoutId));
+
+        for (const recipient of recipients) {
+            const payoutId = `${matchId}:${recipient.publicKey}`;
+            if (existing.has(payoutId)) continue;
+
+            await this.ledger.record({
+                payoutId,
+                matchId,
+                publicKey: recipient.publicKey,
+                amount: recipient.amount,
+                status: 'queued',
+                attempts: 0,
+                updatedAt: Date.now()
+            });
+        }
+    }
+
+    /**
+     * Current state of every payout, oldest first
+     */
+    async listPayouts(): Promise<Payout[]> {
+        return this.ledger.list();
+    }
+
+    /**
+     * Send every queued payout and retry failed ones. Payouts left 'sending'
+     * by a previous run are marked unconfirmed instead of being sent again.
+     */
+    async processPending(): Promise<Payout[]> {
+        // Runs go one after another, overlapping runs would both send the same queued payouts
+        const run = (this.processing ?? Promise.resolve([]))
+            .catch(() => [])
+            .then(() => this.process());
+        this.processing = run;
+        return run;
+    }
+
+    private async process(): Promise<Payout[]> {
+        const payouts = await this.ledger.list();
+
+        for (const [index, payout] of payouts.entries()) {
+            if (payout.status === 'sending') {
+                console.error(`Payout ${payout.payoutId} was interrupted mid-transfer, check it manually`);
+                payouts[index] = await this.update(payout, { status: 'unconfirmed' });
+                continue;
+            }
+
+            const retryable = payout.status === 'failed' && payout.attempts < MAX_PAYOUT_ATTEMPTS;
+            if (payout.status !== 'queued' && !retryable) continue;
+
+            const sending = await this.update(payout, { status: 'sending', attempts: payout.attempts + 1 });
+            const result = await this.fxnClient.transferRewardTokens(payout.publicKey, payout.amount);
+            payouts[index] = result.status === 'success'
+                ? await this.update(sending, { status: 'paid', signature: result.signature, error: undefined })
+                : await this.update(sending, { status: 'failed', error: result.message });
+            console.log(`Payout ${payout.payoutId}: ${payouts[index].status}`);
+        }
+
+        return payouts;
+    }
+
+    private async update(payout: Payout, changes: Partial<Payout>): Promise<Payout> {
+        const updated = { ...payout, ...changes, updatedAt: Date.now() };
+        await this.ledger.record(updated);
+        return updated;
+    }
+}
@@ -0,0 +1,86 @@
+import fs from "fs";
+import {parseArgs} from "util";
+import {elizaLogger} from "@ai16z/eliza/src/logger.ts";
+import {IAgentRuntime} from "@ai16z/eliza/src/types.ts";
+import {loadMatchConfig} from "./matchConfig.ts";
+import {createMockModel, loadRecordedModel, runSimulation} from "./simulator.ts";
+import {mulberry32} from "./utils/random.ts";
+
+function toCount(name: string, value: string, min: number): number {
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < min) {
+        throw new Error(`--${name} must be an integer of at least ${min}`);
+    }
+    return count;
+}
+
+/**
+ * Run simulated Among Us matches and print aggregate stats as JSON.
+ *
+ *   pnpm simulate --matches 200 --model-players 2 --model recorded --recording prompts.jsonl
+ *
+ * Match settings come from the same FXN_* environment variables the host
+ * reads, so FXN_IMPOSTOR_RATIO=0.25 pnpm simulate compares a rules change
+ * and FXN_BOT_STRATEGIES=random one against the weakest bots. The bots and
+ * the mock model draw from --seed too, so the same seed gives the same stats.
+ */
+async function main(): Promise<void> {
+    const { values } = parseArgs({
+        options: {
+            matches: { type: 'string', default: '100' },
+            players: { type: 'string' },
+            'model-players': { type: 'string', default: '0' },
+            model: { type: 'string', default: 'mock' },  // mock or recorded
+            recording: { type: 'string' },  // JSONL written by a player with FXN_PROMPT_LOG
+            seed: { type: 'string', default: '1' },
+            'max-rounds': { type: 'string', default: '50' },
+            out: { type: 'string' },
+            verbose: { type: 'boolean', default: false }
+        }
+    });
+
+    // The game code logs rejected decisions at debug level, keep stdout for the stats unless asked
+    elizaLogger.verbose = values.verbose;
+
+    const settings: Pick<IAgentRuntime, 'getSetting'> = { getSetting: (key: string) => process.env[key] ?? null };
+    const config = loadMatchConfig(settings);
+    const players = toCount('players', values.players ?? String(config.minPlayers), 3);
+    const modelPlayers = toCount('model-players', values['model-players'], 0);
+    const seed = Number(values.seed);
+    const random = mulberry32(seed);
+    const mock = createMockModel(random);
+
+    let model = mock;
+    let recordingMisses: (() => number) | undefined;
+    if (values.model === 'recorded') {
+        if (!values.recording) {
+            throw new Error('--model recorded needs --recording <file>');
+        }
+        const recorded = loadRecordedModel(values.recording, mock);
+        model = recorded.model;
+        recordingMisses = recorded.misses;
+    } else if (values.model !== 'mock') {
+        throw new Error(`Unknown model "${values.model}", expected mock or recorded`);
+    }
+
+    const stats = await runSimulation({
+        matches: toCount('matches', values.matches, 1),
+        players,
+        modelPlayers,
+        model,
+        seed,
+        random,
+        maxRounds: toCount('max-rounds', values['max-rounds'], 1)
+    }, config);
+
+    const output = JSON.stringify({ ...stats, recordingMisses: recordingMisses?.() }, null, 2);
+    process.stdout.write(output + '\n');
+    if (values.out) {
+        fs.writeFileSync(values.out, output + '\n');
+    }
+}
+
+main().catch(error => {
+    console.error(error.message);
+    process.exit(1);
+});
@@ -0,0 +1,267 @@
+import fs from "fs";
+import {parseJSONObjectFromText} from "@ai16z/eliza/src/parsing.ts";
+import {advancePhase, createGame} from "./amongUsEngine.ts";
+import {amongUsModule, AmongUsMatch} from "./amongUsModule.ts";
+import {DEFAULT_BOT_STRATEGY, getBotResponse, Random} from "./amongUsBots.ts";
+import {createRepairPrompt, DecisionSchema, validateDecision} from "./decisionSchema.ts";
+import {GameView} from "./gameModule.ts";
+import {getBotStrategy, getGameRules, MatchConfig} from "./matchConfig.ts";
+import {observeEvents} from "./observations.ts";
+import {GameEvent, GamePhase, PlayerInput} from "./types.ts";
+import {mulberry32} from "./utils/random.ts";
+
+/**
+ * Plays whole Among Us matches in-process, without timers or networking, so
+ * rule changes and player prompts can be measured over hundreds of games.
+ */
+
+export type SeatKind = 'bot' | 'model';
+
+export interface SimulatedSeat {
+    publicKey: string;
+    kind: SeatKind;
+    play(view: GameView): Promise<any>;  // The response body a player would send back
+}
+
+/**
+ * Stand-in for the player's language model: prompt in, reply text out
+ */
+export type Model = (prompt: string) => Promise<string>;
+
+export function botSeat(publicKey: string, strategy = DEFAULT_BOT_STRATEGY, random: Random = Math.random): SimulatedSeat {
+    return { publicKey, kind: 'bot', play: async view => getBotResponse(view, strategy, random) };
+}
+
+/**
+ * A seat played the way FxnClientInterface plays: evidence from everything
+ * the player saw, the game module's decision prompt and schema, and
+ * `retries` repair prompts (FXN_DECISION_RETRIES) for replies that don't
+ * match the schema
+ */
+export function modelSeat(publicKey: string, model: Model, retries = 2): SimulatedSeat {
+    return {
+        publicKey,
+        kind: 'model',
+        play: async view => {
+            const events = amongUsModule.getMemoryEvents!(view).map(memory => memory.event);
+            const evidence = amongUsModule.summarizeMemory!(events, view) || undefined;
+            const schema = amongUsModule.getDecisionSchema!(view);
+            const basePrompt = amongUsModule.createDecisionPrompt!(view, schema, evidence);
+
+            let prompt = basePrompt;
+            for (let attempt = 0; attempt <= retries; attempt++) {
+                const decision = parseJSONObjectFromText(await model(prompt));
+                const errors = validateDecision(schema, decision);
+                if (errors.length === 0) {
+                    return decision;
+                }
+                prompt = createRepairPrompt(basePrompt, decision, errors);
+            }
+            return {};
+        }
+    };
+}
+
+/**
+ * A model that fills in the JSON schema at the end of the prompt with
+ * options drawn at random. Makes mistakes a real model could, like killing
+ * someone in another room.
+ */
+export function createMockModel(random: Random = Math.random): Model {
+    const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+    return async (prompt: string) => {
+        const block = prompt.match(/```json\n([\s\S]*?)\n```/);
+        if (!block) {
+            return 'pass';
+        }
+
+        const schema: DecisionSchema = JSON.parse(block[1]);
+        const decision = Object.fromEntries(Object.entries(schema.properties ?? {})
+            .map(([key, property]) => [key, property.enum ? pick(property.enum) : 'mock reason']));
+        return JSON.stringify(decision);
+    };
+}
+
+/**
+ * Replays model replies recorded by players with FXN_PROMPT_LOG, matched on the
+ * exact prompt. Prompts without a recording are answered by `fallback`.
+ */
+export function loadRecordedModel(filePath: string, fallback: Model): { model: Model; misses(): number } {
+    const recordings = new Map<string, string>();
+    fs.readFileSync(filePath, 'utf-8')
+        .split('\n')
+        .filter(line => line.trim())
+        .forEach(line => {
+            const { prompt, response } = JSON.parse(line);
+            recordings.set(prompt, response);
+        });
+
+    let misses = 0;
+    return {
+        model: async (prompt: string) => {
+            if (recordings.has(prompt)) {
+                return recordings.get(prompt);
+            }
+            misses++;
+            return fallback(prompt);
+        },
+        misses: () => misses
+    };
+}
+
+export interface SimulatedMatch {
+    seed: number;
+    winner?: 'crew' | 'impostors';  // Unset when the match hit maxRounds
+    rounds: number;
+    phases: Record<Exclude<GamePhase, 'complete'>, number>;  // Phases played, for the wall-clock estimate
+    kills: number;
+    ejected: Array<'crewmate' | 'impostor'>;  // Role of each ejected player
+    decisions: Record<SeatKind, number>;
+    invalid: Record<SeatKind, number>;  // Decisions the engine rejected
+}
+
+/**
+ * Play one match to the end. Every alive seat is asked for a decision each
+ * phase, and each phase resolves as soon as everyone has answered.
+ */
+export async function simulateMatch(
+    seats: SimulatedSeat[],
+    seed: number,
+    config: MatchConfig,
+    maxRounds = 50
+): Promise<SimulatedMatch> {
+    const created = createGame(seats.map(s => s.publicKey), seed, getGameRules(config, seats.length));
+    let match: AmongUsMatch = {
+        state: created.state,
+        observations: observeEvents({}, undefined, created.state, created.events)
+    };
+    const events: GameEvent[] = [...created.events];
+    const result: SimulatedMatch = {
+        seed,
+        rounds: 0,
+        phases: { action: 0, movement: 0, voting: 0 },
+        kills: 0,
+        ejected: [],
+        decisions: { bot: 0, model: 0 },
+        invalid: { bot: 0, model: 0 }
+    };
+
+    while (match.state.isActive && match.state.currentRound <= maxRounds) {
+        const { state } = match;
+        result.phases[state.phase as keyof SimulatedMatch['phases']]++;
+
+        const inputs: PlayerInput[] = [];
+        for (const seat of seats) {
+            if (!state.players.get(seat.publicKey)?.isAlive) continue;
+
+            result.decisions[seat.kind]++;
+            const response = await seat.play(amongUsModule.getPlayerView(match, seat.publicKey));
+            const parsed = amongUsModule.parseInput(match, seat.publicKey, response);
+            if ('error' in parsed) {
+                result.invalid[seat.kind]++;
+                continue;
+            }
+            inputs.push(parsed.input);
+        }
+
+        const next = advancePhase(state, inputs);
+        match = {
+            state: next.state,
+            observations: observeEvents(match.observations, state, next.state, next.events)
+        };
+        events.push(...next.events);
+    }
+
+    result.winner = match.state.winner;
+    result.rounds = Math.min(match.state.currentRound, maxRounds);
+    events.forEach(event => {
+        if (event.type === 'kill') result.kills++;
+        if (event.type === 'ejected') result.ejected.push(event.role);
+    });
+    return result;
+}
+
+export interface SimulationStats {
+    matches: number;
+    unfinished: number;  // Matches stopped at maxRounds
+    winRate: { crew: number; impostors: number };
+    averageRounds: number;
+    averageKills: number;
+    averageDurationMs: number;  // Wall-clock length of a match with the configured phase durations
+    ejections: { total: number; impostors: number; accuracy: number };  // accuracy: share of ejections that hit an impostor
+    invalidMoveRate: { bot: number; model: number; overall: number };
+}
+
+/**
+ * Aggregate stats over simulated matches. Rates are fractions between 0 and 1.
+ */
+export function summarizeMatches(matches: SimulatedMatch[], config: MatchConfig): SimulationStats {
+    const count = matches.length;
+    const sum = (value: (m: SimulatedMatch) => number) => matches.reduce((total, m) => total + value(m), 0);
+    const ratio = (part: number, total: number) => total > 0 ? part / total : 0;
+
+    const ejections = sum(m => m.ejected.length);
+    const impostorEjections = sum(m => m.ejected.filter(role => role === 'impostor').length);
+    const decisions = (kind: SeatKind) => sum(m => m.decisions[kind]);
+    const invalid = (kind: SeatKind) => sum(m => m.invalid[kind]);
+
+    return {
+        matches: count,
+        unfinished: matches.filter(m => !m.winner).length,
+        winRate: {
+            crew: ratio(matches.filter(m => m.winner === 'crew').length, count),
+            impostors: ratio(matches.filter(m => m.winner === 'impostors').length, count)
+        },
+        averageRounds: ratio(sum(m => m.rounds), count),
+        averageKills: ratio(sum(m => m.kills), count),
+        averageDurationMs: ratio(sum(m =>
+            m.phases.action * config.actionDuration +
+            m.phases.movement * config.movementDuration +
+            m.phases.voting * config.votingDuration
+        ), count),
+        ejections: { total: ejections, impostors: impostorEjections, accuracy: ratio(impostorEjections, ejections) },
+        invalidMoveRate: {
+            bot: ratio(invalid('bot'), decisions('bot')),
+            model: ratio(invalid('model'), decisions('model')),
+            overall: ratio(invalid('bot') + invalid('model'), decisions('bot') + decisions('model'))
+        }
+    };
+}
+
+export interface SimulationOptions {
+    matches: number;
+    players: number;
+    modelPlayers: number;  // Seats played through the prompt and a model, the rest are bots
+    model: Model;
+    seed: number;  // Match i is played with seed + i
+    random?: Random;  // What the bots draw from, mulberry32(seed) by default. Share it with a mock model
+    maxRounds?: number;
+}
+
+/**
+ * Public keys of the simulated table, model seats first
+ */
+export function getSeatKeys(players: number, modelPlayers: number): string[] {
+    if (modelPlayers > players) {
+        throw new Error(`Cannot seat ${modelPlayers} model players at a table of ${players}`);
+    }
+    return Array.from({ length: players }, (_, i) => i < modelPlayers ? `model-${i + 1}` : `bot-${i + 1}`);
+}
+
+/**
+ * Play options.matches matches. With a seeded model, like createMockModel
+ * drawing from options.random, the same seed gives the same stats.
+ */
+export async function runSimulation(options: SimulationOptions, config: MatchConfig): Promise<SimulationStats> {
+    const random = options.random ?? mulberry32(options.seed);
+    const seats = getSeatKeys(options.players, options.modelPlayers).map((publicKey, i) => i < options.modelPlayers
+        ? modelSeat(publicKey, options.model)
+        : botSeat(publicKey, getBotStrategy(config, i - options.modelPlayers), random));
+
+    const matches: SimulatedMatch[] = [];
+    for (let i = 0; i < options.matches; i++) {
+        matches.push(await simulateMatch(seats, options.seed + i, config, options.maxRounds));
+    }
+    return summarizeMatches(matches, config);
+}
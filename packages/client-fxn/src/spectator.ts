@@ -0,0 +1,165 @@
+import {GameEvent, GameState, VotingRecord} from "./types.ts";
+import {MatchRecord} from "./matchHistory.ts";
+import {Payout} from "./rewards.ts";
+import {Presence} from "./afk.ts";
+
+export interface SpectatorPlayer {
+    publicKey: string;
+    isBot: boolean;
+    isAlive: boolean;  // While the match runs, false only for reported bodies and ejected players
+    presence: Presence;
+    room?: number;  // Only revealed once the match is over
+    role?: 'crewmate' | 'impostor';  // Only revealed once the match is over
+}
+
+export interface SpectatorRound {
+    round: number;
+    // While the match runs only reported bodies, in the round of the report. Room and killer revealed once it is over
+    deaths: Array<{ victim: string; room?: number; killer?: string }>;
+    meeting?: Omit<VotingRecord, 'round'>;
+}
+
+export interface SpectatorState {
+    game: 'amongus';
+    matchId?: string;
+    status: string;
+    deadline?: number;  // Epoch ms of the next phase or lifecycle change
+    phase?: GameState['phase'];
+    round?: number;
+    accusedPlayer?: string;
+    reportedBody?: string;
+    accusations?: GameState['accusations'];
+    tasks?: { total: number; completed: number };
+    players: SpectatorPlayer[];
+    rooms: Array<{ room: number; alive: string[]; dead: string[] }>;  // Empty until the match is over
+    history: SpectatorRound[];
+    winner?: GameState['winner'];
+}
+
+export interface LeaderboardEntry {
+    publicKey: string;
+    wins: number;
+    gamesPlayed: number;
+    timestamp: number;  // End of the most recent win
+    rewards: number;  // Reward tokens paid out so far
+    transactionHash?: string;  // Most recent reward transfer
+}
+
+/**
+ * Everything a spectator may see about a match. While it runs that is what
+ * every player knows: roles, killers, rooms and unreported bodies stay
+ * hidden until the match is over, so a stream can't be used to cheat.
+ */
+export function buildSpectatorState(params: {
+    matchId?: string;
+    status: string;
+    deadline?: number;
+    state?: GameState;
+    events: Array<GameEvent & { round: number }>;
+    presence?: Record<string, Presence>;  // AFK players
+}): SpectatorState {
+    const { matchId, status, deadline, state, events, presence = {} } = params;
+    if (!state) {
+        return { game: 'amongus', matchId, status, deadline, players: [], rooms: [], history: [] };
+    }
+
+    const revealed = !state.isActive;
+    const knownDeaths = new Set([...state.reportedBodies, ...state.voteHistory.map(v => v.ejected)]);
+    const players: SpectatorPlayer[] = Array.from(state.players.values()).map(p => ({
+        publicKey: p.publicKey,
+        isBot: p.publicKey.startsWith('bot-'),
+        isAlive: p.isAlive || (!revealed && !knownDeaths.has(p.publicKey)),
+        presence: presence[p.publicKey] ?? 'active',
+        room: revealed ? p.role.room : undefined,
+        role: revealed ? p.role.type : undefined
+    }));
+
+    const rooms = !revealed ? [] : Array.from({ length: state.rules.roomCount }, (_, room) => ({
+        room,
+        alive: players.filter(p => p.room === room && p.isAlive).map(p => p.publicKey),
+        dead: players.filter(p => p.room === room && !p.isAlive).map(p => p.publicKey)
+    }));
+
+    const history: SpectatorRound[] = [];
+    const getRound = (round: number) => {
+        let entry = history.find(h => h.round === round);
+        if (!entry) {
+            entry = { round, deaths: [] };
+            history.push(entry);
+        }
+        return entry;
+    };
+    events.forEach(event => {
+        if (event.type === 'kill' && revealed) {
+            getRound(event.round).deaths.push({ victim: event.victim, room: event.room, killer: event.killer });
+        } else if (event.type === 'meeting_called' && event.reportedBody && !revealed) {
+            getRound(event.round).deaths.push({ victim: event.reportedBody });
+        } else if (event.type === 'vote_tallied') {
+            const { round, ...meeting } = event.record;
+            getRound(round).meeting = meeting;
+        }
+    });
+
+    return {
+        game: 'amongus',
+        matchId,
+        status,
+        deadline,
+        phase: state.phase,
+        round: state.currentRound,
+        accusedPlayer: state.accusedPlayer,
+        reportedBody: state.reportedBody,
+        accusations: state.accusations,
+        tasks: {
+            total: state.tasks.length,
+            completed: state.tasks.filter(t => t.completedBy).length
+        },
+        players,
+        rooms,
+        history,
+        winner: state.winner
+    };
+}
+
+/**
+ * Wins and paid rewards per real player across finished matches, most wins first
+ */
+export function buildLeaderboard(records: MatchRecord[], payouts: Payout[] = []): LeaderboardEntry[] {
+    const entries = new Map<string, LeaderboardEntry>();
+
+    records.forEach(record => {
+        const winningRole = record.winner === 'crew' ? 'crewmate' : 'impostor';
+        record.participants
+            .filter(p => !p.isBot)
+            .forEach(p => {
+                const entry = entries.get(p.publicKey) || { publicKey: p.publicKey, wins: 0, gamesPlayed: 0, timestamp: 0, rewards: 0 };
+                entry.gamesPlayed++;
+                if (record.winner && p.role === winningRole) {
+                    entry.wins++;
+                    entry.timestamp = Math.max(entry.timestamp, record.endedAt);
+                }
+                entries.set(p.publicKey, entry);
+            });
+    });
+
+    return rankLeaderboard(entries, payouts);
+}
+
+/**
+ * Add paid rewards to each player's entry and rank players with at least one
+ * win, most wins first
+ */
+export function rankLeaderboard(entries: Map<string, LeaderboardEntry>, payouts: Payout[]): LeaderboardEntry[] {
+    payouts
+        .filter(payout => payout.status === 'paid' && entries.has(payout.publicKey))
+        .sort((a, b) => a.updatedAt - b.updatedAt)
+        .forEach(payout => {
+            const entry = entries.get(payout.publicKey)!;
+            entry.rewards += payout.amount;
+            entry.transactionHash = payout.signature;
+        });
+
+    return Array.from(entries.values())
+        .filter(entry => entry.wins > 0)
+        .sort((a, b) => b.wins - a.wins || b.timestamp - a.timestamp);
+}
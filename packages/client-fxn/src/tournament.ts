@@ -0,0 +1,169 @@
+import fs from "fs";
+import path from "path";
+import {randomUUID} from "crypto";
+import {MatchRecord} from "./matchHistory.ts";
+import {getRating, PlayerStats} from "./ratings.ts";
+
+export interface TournamentTable {
+    players: string[];  // Entrants drawn to this table
+    matchId?: string;  // Set once its match starts
+    seated?: string[];  // The drawn players who showed up, the rest forfeit
+    advanced?: string[];  // Set once the table is decided
+}
+
+export interface TournamentRound {
+    round: number;
+    tables: TournamentTable[];
+}
+
+export interface Tournament {
+    tournamentId: string;
+    startedAt: number;
+    tableSize: number;
+    seeds: Array<{ publicKey: string; rating: number }>;  // Entrants, best rated first
+    rounds: TournamentRound[];
+    champions?: string[];  // Winners of the final, empty if only bots won it
+    finishedAt?: number;
+}
+
+/**
+ * Deal players, best seed first, into the fewest tables of at most tableSize.
+ * Seeds snake across the tables (1 2 3 3 2 1 ...) so every table gets a fair
+ * share of strong and weak players.
+ */
+export function seedTables(players: string[], tableSize: number): string[][] {
+    const tables: string[][] = Array.from({ length: Math.ceil(players.length / tableSize) }, () => []);
+    players.forEach((publicKey, i) => {
+        const pass = Math.floor(i / tables.length);
+        const position = i % tables.length;
+        tables[pass % 2 === 0 ? position : tables.length - 1 - position].push(publicKey);
+    });
+    return tables;
+}
+
+function rankByRating(players: string[], stats: PlayerStats[]): string[] {
+    return [...players].sort((a, b) => getRating(stats, b) - getRating(stats, a));
+}
+
+export function createTournament(entrants: string[], stats: PlayerStats[], tableSize: number): Tournament {
+    const players = rankByRating(Array.from(new Set(entrants)), stats);
+    if (players.length < 2) {
+        throw new Error('A tournament needs at least 2 players');
+    }
+    if (!Number.isInteger(tableSize) || tableSize < 3) {
+        throw new Error('tableSize must be an integer of at least 3');
+    }
+
+    return {
+        tournamentId: randomUUID(),
+        startedAt: Date.now(),
+        tableSize,
+        seeds: players.map(publicKey => ({ publicKey, rating: getRating(stats, publicKey) })),
+        rounds: [{ round: 1, tables: seedTables(players, tableSize).map(table => ({ players: table })) }]
+    };
+}
+
+/**
+ * The first undecided table of the current round, or null once the tournament
+ * is over. Between matches, a table with a match but no result lost its match
+ * to a host error and is played again.
+ */
+export function getNextTable(tournament: Tournament): TournamentTable | null {
+    if (tournament.finishedAt) {
+        return null;
+    }
+    return tournament.rounds[tournament.rounds.length - 1].tables.find(table => !table.advanced) ?? null;
+}
+
+/**
+ * Start a table's match with those of its players who are around
+ */
+export function seatTable(table: TournamentTable, matchId: string, activePlayers: string[]): void {
+    table.matchId = matchId;
+    table.seated = table.players.filter(publicKey => activePlayers.includes(publicKey));
+}
+
+/**
+ * The table playing a match, if the match is a tournament one
+ */
+export function findTable(tournament: Tournament, matchId: string): TournamentTable | null {
+    for (const round of tournament.rounds) {
+        const table = round.tables.find(t => t.matchId === matchId);
+        if (table) return table;
+    }
+    return null;
+}
+
+/**
+ * Decide a table from its match. Winners who were seated go through, at most
+ * half the table (best rated first) so every round shrinks the field; the
+ * winners of the final are the champions. A null record decides a table
+ * nobody showed up for. Once every table of the round is decided the next
+ * round is drawn. Updates the tournament in place.
+ */
+export function recordTableResult(
+    tournament: Tournament,
+    matchId: string,
+    record: MatchRecord | null,
+    stats: PlayerStats[]
+): void {
+    const table = findTable(tournament, matchId);
+    if (!table || table.advanced) {
+        return;
+    }
+
+    const round = tournament.rounds[tournament.rounds.length - 1];
+    const isFinal = round.tables.length === 1;
+    const winningRole = record?.winner === 'crew' ? 'crewmate' : 'impostor';
+    const winners = (record?.winner ? record.participants : [])
+        .filter(p => !p.isBot && p.role === winningRole && table.seated?.includes(p.publicKey))
+        .map(p => p.publicKey);
+    table.advanced = isFinal
+        ? winners
+        : rankByRating(winners, stats).slice(0, Math.ceil((table.seated?.length ?? 0) / 2));
+
+    if (round.tables.some(t => !t.advanced)) {
+        return;
+    }
+
+    const advanced = rankByRating(round.tables.flatMap(t => t.advanced), stats);
+    if (isFinal || advanced.length < 2) {
+        tournament.champions = isFinal ? table.advanced : advanced;
+        tournament.finishedAt = Date.now();
+        return;
+    }
+    tournament.rounds.push({
+        round: round.round + 1,
+        tables: seedTables(advanced, tournament.tableSize).map(players => ({ players }))
+    });
+}
+
+/**
+ * Every tournament the host has run, one JSON line per change. Tournaments
+ * run one after another, so the last line is the latest one as it stands.
+ */
+export class TournamentStore {
+    private readonly filePath: string;
+
+    constructor(dataDir: string) {
+        this.filePath = path.join(dataDir, 'tournaments.jsonl');
+    }
+
+    async save(tournament: Tournament): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.appendFile(this.filePath, JSON.stringify(tournament) + '\n');
+    }
+
+    /**
+     * The most recently started tournament, finished or not
+     */
+    async latest(): Promise<Tournament | null> {
+        if (!fs.existsSync(this.filePath)) {
+            return null;
+        }
+
+        const data = await fs.promises.readFile(this.filePath, 'utf-8');
+        const lines = data.split('\n').filter(line => line.trim());
+        return lines.length ? JSON.parse(lines[lines.length - 1]) as Tournament : null;
+    }
+}
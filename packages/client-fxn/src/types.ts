@@ -0,0 +1,131 @@
+export interface PlayerRole {
+    type: 'crewmate' | 'impostor';
+    room: number;  // 0 to roomCount - 1, rooms form a ring
+}
+
+export interface PlayerAction {
+    type: 'accuse' | 'pass' | 'kill' | 'task' | 'report';
+    target?: string;  // publicKey of target for accuse/kill, or of the body to report
+    accusationText?: string;  // What they say when accusing
+}
+
+export interface PlayerMovement {
+    type: 'stay' | 'clockwise' | 'counterclockwise';
+}
+
+export interface Accusation {
+    accuser: string;  // publicKey of the accusing player
+    target: string;  // publicKey of the accused player
+    accusationText?: string;
+}
+
+export interface PlayerVote {
+    target: string | null;  // publicKey of voted player, null for skip
+    voteText: string;  // What they say when voting
+}
+
+export interface VotingRecord {
+    round: number;
+    accusedPlayer?: string;  // Missing when a reported body called the meeting without accusations
+    reportedBody?: string;
+    votes: Array<PlayerVote & { voter: string }>;
+    ejected: string | null;
+}
+
+export interface PlayerState {
+    publicKey: string;
+    role: PlayerRole;
+    isAlive: boolean;
+    lastAction?: PlayerAction;
+    lastMovement?: PlayerMovement;
+    lastVote?: PlayerVote;
+    lastKillRound?: number;  // Round of this impostor's most recent kill
+}
+
+/**
+ * The rules a single game is played under, fixed when the game is created
+ */
+export interface GameRules {
+    roomCount: number;  // Rooms are arranged in a ring of this size
+    impostorCount: number;
+    killCooldown: number;  // Rounds an impostor must wait after a kill before killing again
+    taskCount: number;  // Tasks spread over the rooms, the crew wins once all are done. 0 disables tasks
+}
+
+/**
+ * A crewmate completes a task by spending an action phase on it in the task's room
+ */
+export interface Task {
+    id: number;
+    room: number;
+    completedBy?: string;  // publicKey of the crewmate who finished it
+}
+
+export type GamePhase = 'action' | 'movement' | 'voting' | 'complete';
+
+export interface GameState {
+    players: Map<string, PlayerState>;
+    rules: GameRules;
+    phase: GamePhase;
+    currentRound: number;
+    actionOrder: string[];  // Array of publicKeys in action order
+    accusedPlayer?: string;  // publicKey of player being voted on, if anyone was accused
+    reportedBody?: string;  // publicKey of the body whose report called the meeting
+    accusations?: Accusation[];  // Accusations raised in the round that opened the vote
+    votingResults?: Map<string, string>;  // voter publicKey -> voted publicKey
+    voteHistory: VotingRecord[];  // Completed meetings, oldest first
+    tasks: Task[];
+    reportedBodies: string[];  // Bodies can only be reported once
+    isActive: boolean;
+    winner?: 'crew' | 'impostors';
+    rngState: number;  // Seedable RNG state, advanced on every draw
+}
+
+/**
+ * A single player's submission for the current phase
+ */
+export type PlayerInput =
+    | { publicKey: string; phase: 'action'; action: PlayerAction }
+    | { publicKey: string; phase: 'movement'; movement: PlayerMovement }
+    | { publicKey: string; phase: 'voting'; vote: PlayerVote };
+
+/**
+ * Everything the engine decided while resolving a phase, in the order it happened
+ */
+export type GameEvent =
+    | { type: 'roles_assigned'; players: Array<{ publicKey: string; role: PlayerRole }> }
+    | { type: 'round_started'; round: number; actionOrder: string[] }
+    | { type: 'phase_started'; phase: GamePhase; round: number }
+    | { type: 'input_rejected'; publicKey: string; phase: GamePhase; reason: string }
+    | { type: 'kill'; killer: string; victim: string; room: number }
+    | { type: 'movement'; publicKey: string; from: number; to: number }
+    | { type: 'task_completed'; publicKey: string; taskId: number; room: number }
+    | { type: 'meeting_called'; accusedPlayer?: string; reportedBody?: string; reporter?: string; accusations: Accusation[] }
+    | { type: 'vote_tallied'; record: VotingRecord }
+    | { type: 'ejected'; publicKey: string; role: PlayerRole['type'] }
+    | { type: 'game_over'; winner: 'crew' | 'impostors' };
+
+/**
+ * Something a single player saw or heard. Room-level observations only reach
+ * players in that room; meetings, votes and the outcome are public.
+ */
+export type Observation =
+    | { type: 'room_occupants'; round: number; room: number; players: string[]; bodies: string[] }
+    | { type: 'witnessed_kill'; round: number; room: number; killer: string; victim: string }
+    | { type: 'body_found'; round: number; room: number; victim: string }
+    | { type: 'player_left'; round: number; publicKey: string; from: number; to: number }
+    | { type: 'player_arrived'; round: number; publicKey: string; from: number; to: number }
+    | { type: 'meeting_called'; round: number; accusedPlayer?: string; reportedBody?: string; reporter?: string; accusations: Accusation[] }
+    | { type: 'vote_tallied'; round: number; record: VotingRecord }
+    | { type: 'ejected'; round: number; publicKey: string }
+    | { type: 'game_over'; round: number; winner: 'crew' | 'impostors' };
+
+/**
+ * publicKey -> everything that player has observed this match, oldest first
+ */
+export type ObservationLogs = Record<string, Observation[]>;
+
+export interface EngineResult {
+    state: GameState;
+    events: GameEvent[];
+}
@@ -0,0 +1,43 @@
+/**
+ * Mulberry32 step. Returns the next RNG state and a float in [0, 1).
+ * Keeping the state explicit lets callers store it and replay a game exactly.
+ */
+export function nextRandom(state: number): { state: number; value: number } {
+    const nextState = (state + 0x6D2B79F5) | 0;
+    let t = nextState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return {
+        state: nextState,
+        value: ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    };
+}
+
+/**
+ * Normalize an arbitrary seed (number or string) into a 32-bit RNG state
+ */
+export function seedRandom(seed: number | string): number {
+    if (typeof seed === 'number') {
+        return seed | 0;
+    }
+
+    // FNV-1a hash of the string seed
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash | 0;
+}
+
+/**
+ * A Math.random stand-in that draws from a seeded mulberry32 sequence
+ */
+export function mulberry32(seed: number | string): () => number {
+    let state = seedRandom(seed);
+    return () => {
+        const next = nextRandom(state);
+        state = next.state;
+        return next.value;
+    };
+}
@@ -6,15 +6,65 @@ import bs58 from "bs58";
 import { Buffer } from 'buffer';
 import nacl from 'tweetnacl';
 
+/**
+ * Version of the signed message format. 1: ed25519 over the canonical JSON
+ * of the payload, see canonicalize.
+ */
+export const SIGNING_VERSION = 1;
+
+/**
+ * Canonical JSON of a value, the bytes that get signed (as UTF-8). Agents in
+ * other languages must produce exactly the same string, see the vectors in
+ * __tests__/fixtures/signing-vectors.json:
+ * - object keys sorted by UTF-16 code unit, undefined members left out
+ * - no whitespace
+ * - numbers in their shortest round-trip form (JavaScript's Number#toString:
+ *   1.0 -> 1, -0 -> 0, 1e21 -> 1e+21), NaN and Infinity refused
+ * - strings escaped as JSON.stringify does: only ", \ and control characters,
+ *   everything else as is
+ *
+ * This is the JSON Canonicalization Scheme (RFC 8785).
+ */
+export function canonicalize(value: any): string {
+    if (value !== null && typeof value === 'object' && typeof value.toJSON === 'function') {
+        value = value.toJSON();
+    }
+    if (value === null) {
+        return 'null';
+    }
+
+    switch (typeof value) {
+        case 'boolean':
+        case 'string':
+            return JSON.stringify(value);
+        case 'number':
+            if (!Number.isFinite(value)) {
+                throw new Error(`Cannot canonicalize ${value}`);
+            }
+            return JSON.stringify(value);
+        case 'object':
+            if (Array.isArray(value)) {
+                return `[${value.map(item => isOmitted(item) ? 'null' : canonicalize(item)).join(',')}]`;
+            }
+            return `{${Object.keys(value)
+                .filter(key => !isOmitted(value[key]))
+                .sort()
+                .map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`)
+                .join(',')}}`;
+        default:
+            throw new Error(`Cannot canonicalize a ${typeof value}`);
+    }
+}
+
+// Members JSON has no value for
+function isOmitted(value: any): boolean {
+    return value === undefined || typeof value === 'function' || typeof value === 'symbol';
+}
+
 // Sender service
 export async function signMessage(keypair: Keypair, payload: any) {
     try {
-        // Convert payload to buffer
-        const payloadBuffer = Buffer.from(
-            typeof payload === 'object' ?
-                JSON.stringify(payload) :
-                String(payload)
-        );
+        const payloadBuffer = Buffer.from(canonicalize(payload), 'utf-8');
 
         // Sign the message
         const signature = nacl.sign.detached(
@@ -23,6 +73,7 @@ export async function signMessage(keypair: Keypair, payload: any) {
         );
 
         return {
+            version: SIGNING_VERSION,
             payload,
             signature: bs58.encode(signature),
             publicKey: keypair.publicKey.toBase58()
@@ -34,18 +85,17 @@ export async function signMessage(keypair: Keypair, payload: any) {
 
 // Receiver service
 export async function verifyMessage(
-    message: { payload: any, signature: string, publicKey: string }
+    message: { version?: number, payload: any, signature: string, publicKey: string }
 ) {
     try {
+        if (message.version !== SIGNING_VERSION) {
+            throw new Error(`unsupported version ${message.version}, expected ${SIGNING_VERSION}`);
+        }
+
         // Convert signature back to Uint8Array
         const signatureUint8 = bs58.decode(message.signature);
 
-        // Convert payload to buffer
-        const payloadBuffer = Buffer.from(
-            typeof message.payload === 'object' ?
-                JSON.stringify(message.payload) :
-                String(message.payload)
-        );
+        const payloadBuffer = Buffer.from(canonicalize(message.payload), 'utf-8');
 
         // Convert public key string to PublicKey object
         const publicKey = new PublicKey(message.publicKey);
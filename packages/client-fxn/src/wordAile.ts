@@ -0,0 +1,234 @@
+import {IAgentRuntime} from '@ai16z/eliza/src/types.ts';
+import {words} from "./utils/words.ts";
+import {Payout} from "./rewards.ts";
+import {LeaderboardEntry, rankLeaderboard} from "./spectator.ts";
+import {GameView, InputResult} from "./gameModule.ts";
+
+export const WORD_LENGTH = 5;
+
+/**
+ * correct: right letter in the right spot (green)
+ * present: the letter is in the word elsewhere (yellow)
+ * absent: no more of this letter in the word (grey)
+ */
+export type LetterScore = 'correct' | 'present' | 'absent';
+
+export interface ScoredGuess {
+    word: string;
+    feedback: LetterScore[];
+}
+
+export interface WordAileBoard {
+    guesses: ScoredGuess[];
+    solved: boolean;
+}
+
+/**
+ * Everything players may see of a running match. The secret word stays with
+ * the host.
+ */
+export interface WordAileState {
+    round: number;
+    turn: number;
+    maxGuesses: number;
+    wordsToWin: number;
+    boards: Map<string, WordAileBoard>;  // publicKey -> board for the current word
+    scores: Map<string, number>;  // publicKey -> words guessed this match
+}
+
+export interface WordAileConfig {
+    turnDuration: number;  // ms players get to submit each guess
+    maxGuesses: number;  // Guesses per player per word
+    wordsToWin: number;  // Correctly guessed words that win the match
+    roundDelay: number;  // ms between revealing a word and starting the next
+    nextMatchDelay: number;  // ms between a win and the next match
+    rewardAmount: number;  // Reward tokens for the match winner, 0 disables payouts
+}
+
+export const DEFAULT_WORDAILE_CONFIG: WordAileConfig = {
+    turnDuration: 60 * 1000,
+    maxGuesses: 6,
+    wordsToWin: 3,
+    roundDelay: 10 * 1000,
+    nextMatchDelay: 60 * 1000,
+    rewardAmount: 0
+};
+
+const SETTING_KEYS: Record<keyof WordAileConfig, string> = {
+    turnDuration: 'FXN_WORDAILE_TURN_DURATION_MS',
+    maxGuesses: 'FXN_WORDAILE_MAX_GUESSES',
+    wordsToWin: 'FXN_WORDAILE_WORDS_TO_WIN',
+    roundDelay: 'FXN_WORDAILE_ROUND_DELAY_MS',
+    nextMatchDelay: 'FXN_NEXT_MATCH_DELAY_MS',
+    rewardAmount: 'FXN_WORDAILE_REWARD'
+};
+
+/**
+ * Load the WordAIle settings from character settings or env, see loadMatchConfig
+ */
+export function loadWordAileConfig(runtime: IAgentRuntime): WordAileConfig {
+    const config: WordAileConfig = { ...DEFAULT_WORDAILE_CONFIG };
+    (Object.keys(SETTING_KEYS) as Array<keyof WordAileConfig>).forEach((key) => {
+        const value = runtime.getSetting(SETTING_KEYS[key]);
+        if (value !== null && value !== undefined && value !== '') {
+            config[key] = Number(value);
+        }
+    });
+
+    const errors: string[] = [];
+    (['turnDuration', 'maxGuesses', 'wordsToWin'] as const).forEach((key) => {
+        if (!Number.isInteger(config[key]) || config[key] <= 0) {
+            errors.push(`${key} must be a positive integer`);
+        }
+    });
+    (['roundDelay', 'nextMatchDelay'] as const).forEach((key) => {
+        if (!Number.isInteger(config[key]) || config[key] < 0) {
+            errors.push(`${key} must be a non-negative number of milliseconds`);
+        }
+    });
+    if (!Number.isFinite(config.rewardAmount) || config.rewardAmount < 0) {
+        errors.push('rewardAmount must be a non-negative number of tokens');
+    }
+    if (errors.length > 0) {
+        throw new Error(`Invalid WordAIle config: ${errors.join('; ')}`);
+    }
+
+    return config;
+}
+
+/**
+ * Clean up a raw word list: entries glued together with commas are split,
+ * case and whitespace are normalized and duplicates dropped. Throws on any
+ * entry that isn't a five letter word so a bad edit fails at startup.
+ */
+export function normalizeWords(raw: string[]): string[] {
+    const normalized = raw
+        .flatMap(entry => entry.split(','))
+        .map(word => word.trim().toLowerCase())
+        .filter(word => word.length > 0);
+
+    const invalid = normalized.filter(word => !new RegExp(`^[a-z]{${WORD_LENGTH}}$`).test(word));
+    if (invalid.length > 0) {
+        throw new Error(`Invalid dictionary words: ${invalid.slice(0, 10).join(', ')}`);
+    }
+
+    return Array.from(new Set(normalized));
+}
+
+export const DICTIONARY: string[] = normalizeWords(words);
+const DICTIONARY_SET = new Set(DICTIONARY);
+
+export function isValidGuess(guess: string): boolean {
+    return DICTIONARY_SET.has(guess);
+}
+
+/**
+ * Score a guess like Wordle: exact matches first, then each remaining letter
+ * is 'present' only while the secret still has unmatched copies of it
+ */
+export function scoreGuess(guess: string, secret: string): LetterScore[] {
+    const feedback: LetterScore[] = Array(secret.length).fill('absent');
+    const remaining = new Map<string, number>();
+
+    for (let i = 0; i < secret.length; i++) {
+        if (guess[i] === secret[i]) {
+            feedback[i] = 'correct';
+        } else {
+            remaining.set(secret[i], (remaining.get(secret[i]) || 0) + 1);
+        }
+    }
+
+    for (let i = 0; i < secret.length; i++) {
+        const count = remaining.get(guess[i]) || 0;
+        if (feedback[i] !== 'correct' && count > 0) {
+            feedback[i] = 'present';
+            remaining.set(guess[i], count - 1);
+        }
+    }
+
+    return feedback;
+}
+
+/**
+ * The game state as sent to a single player: only their own board
+ */
+export function getWordAileView(state: WordAileState, publicKey: string): GameView {
+    const board = state.boards.get(publicKey) || { guesses: [], solved: false };
+    return {
+        game: 'wordaile',
+        phase: 'guess',
+        round: state.round,
+        turn: state.turn,
+        wordLength: WORD_LENGTH,
+        maxGuesses: state.maxGuesses,
+        guessesLeft: state.maxGuesses - board.guesses.length,
+        guesses: board.guesses,
+        solved: board.solved,
+        wordsGuessed: state.scores.get(publicKey) || 0,
+        wordsToWin: state.wordsToWin
+    };
+}
+
+export interface WordAileSpectatorBoard {
+    publicKey: string;
+    guesses: Array<{ word?: string; feedback: LetterScore[] }>;
+    solved: boolean;
+    wordsGuessed: number;
+}
+
+/**
+ * Every board as spectators see it. The guessed words are left out until
+ * the word is over: a solved board's last guess is the secret word.
+ */
+export function getSpectatorBoards(state: WordAileState, showWords: boolean): WordAileSpectatorBoard[] {
+    return Array.from(state.boards.entries()).map(([publicKey, board]) => ({
+        publicKey,
+        guesses: board.guesses.map(({ word, feedback }) => (showWords ? { word, feedback } : { feedback })),
+        solved: board.solved,
+        wordsGuessed: state.scores.get(publicKey) || 0
+    }));
+}
+
+/**
+ * Check a player's guess. An invalid word doesn't use up a guess, the player
+ * just misses the turn.
+ */
+export function parseGuess(state: WordAileState, publicKey: string, response: any): InputResult<string> {
+    const board = state.boards.get(publicKey);
+    if (board?.solved) return { error: 'Word already solved' };
+    if (board && board.guesses.length >= state.maxGuesses) return { error: 'No guesses left' };
+
+    const guess = String(response?.guess ?? '').trim().toLowerCase();
+    if (!isValidGuess(guess)) return { error: `Not in the dictionary: ${response?.guess}` };
+    return { input: guess };
+}
+
+export interface WordAileMatchRecord {
+    matchId: string;
+    startedAt: number;
+    endedAt: number;
+    words: string[];  // Every secret word played, in order
+    scores: Record<string, number>;  // publicKey -> words guessed
+    winners: string[];  // Everyone who reached wordsToWin on the deciding turn
+}
+
+/**
+ * Wins and paid rewards per player across finished WordAIle matches, most wins first
+ */
+export function buildWordAileLeaderboard(records: WordAileMatchRecord[], payouts: Payout[] = []): LeaderboardEntry[] {
+    const entries = new Map<string, LeaderboardEntry>();
+
+    records.forEach(record => {
+        Object.keys(record.scores).forEach(publicKey => {
+            const entry = entries.get(publicKey) || { publicKey, wins: 0, gamesPlayed: 0, timestamp: 0, rewards: 0 };
+            entry.gamesPlayed++;
+            if (record.winners.includes(publicKey)) {
+                entry.wins++;
+                entry.timestamp = Math.max(entry.timestamp, record.endedAt);
+            }
+            entries.set(publicKey, entry);
+        });
+    });
+
+    return rankLeaderboard(entries, payouts);
+}
@@ -1,421 +1,311 @@
+import {randomUUID} from "crypto";
+import {EventEmitter} from "events";
 import {FxnClient} from "./fxnClient.ts";
-
-interface PlayerRole {
-    type: 'crewmate' | 'impostor';
-    room: number;  // 0-5 for the 6 rooms
-}
-
-interface PlayerAction {
-    type: 'accuse' | 'pass' | 'kill';
-    target?: string;  // publicKey of target for accuse/kill
-    accusationText?: string;  // What they say when accusing
-}
-
-interface PlayerMovement {
-    type: 'stay' | 'clockwise' | 'counterclockwise';
+import {MatchHistory} from "./matchHistory.ts";
+import {Payout, RewardDistributor} from "./rewards.ts";
+import {LeaderboardEntry} from "./spectator.ts";
+import {
+    buildWordAileLeaderboard,
+    DICTIONARY,
+    getSpectatorBoards,
+    getWordAileView,
+    parseGuess,
+    scoreGuess,
+    WordAileConfig,
+    WordAileMatchRecord,
+    WordAileSpectatorBoard,
+    WordAileState
+} from "./wordAile.ts";
+
+type WordAileStatus = 'playing' | 'revealing' | 'finished' | 'stopped';
+
+export interface WordAileSpectatorState {
+    game: 'wordaile';
+    matchId?: string;
+    status: string;
+    deadline?: number;  // Epoch ms of the end of the current turn or pause
+    round: number;
+    turn: number;
+    maxGuesses: number;
+    wordsToWin: number;
+    lastWord?: string;  // The secret word is only shown once its round is over
+    lastWinners: string[];
+    boards: WordAileSpectatorBoard[];  // Without the guessed words while the word is being played
 }
 
-interface PlayerVote {
-    target: string | null;  // publicKey of voted player, null for skip
-    voteText: string;  // What they say when voting
-}
-
-interface PlayerState {
-    publicKey: string;
-    role: PlayerRole;
-    isAlive: boolean;
-    lastAction?: PlayerAction;
-    lastMovement?: PlayerMovement;
-    lastVote?: PlayerVote;
-}
-
-interface GameState {
-    players: Map<string, PlayerState>;
-    phase: 'action' | 'movement' | 'voting' | 'complete';
-    currentRound: number;
-    actionOrder: string[];  // Array of publicKeys in action order
-    accusedPlayer?: string;  // publicKey of player being voted on
-    votingResults?: Map<string, string>;  // voter publicKey -> voted publicKey
-    isActive: boolean;
-    winner?: 'crew' | 'impostors';
-}
+/**
+ * Runs WordAIle matches back to back. Each round the host picks a secret word
+ * and every subscriber gets one guess per turn, scored green/yellow/grey. The
+ * first players to guess wordsToWin words win the match.
+ *
+ * Emits 'update' with the latest WordAileSpectatorState whenever the match changes
+ */
+export class WordAileManager extends EventEmitter {
+    private status: WordAileStatus = 'playing';
+    private matchId: string;
+    private startedAt: number;
+    private state: WordAileState;
+    private secret: string;
+    private words: string[] = [];
+    private lastWord?: string;
+    private lastWinners: string[] = [];
+    private pendingGuesses = new Map<string, string>();  // publicKey -> guess for the current turn
+    private deadline: number;
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private fxnClient: FxnClient,
+        private config: WordAileConfig,
+        private matchHistory: MatchHistory<WordAileMatchRecord>,
+        private rewards: RewardDistributor
+    ) {
+        super();
+        this.state = this.newState();
+        this.schedule(() => this.startMatch(), 0);
+    }
 
-export class AmongUsManager {
-    private gameState: GameState;
-    private readonly ROUND_DURATION = 2 * 60 * 1000;  // 2 minutes per round
-    private readonly ACTION_DURATION = 30 * 1000;     // 30 seconds for actions
-    private readonly MOVEMENT_DURATION = 15 * 1000;   // 15 seconds for movement
-    private readonly VOTING_DURATION = 45 * 1000;     // 45 seconds for voting
-    private roundTimer: NodeJS.Timeout | null = null;
-    private phaseTimer: NodeJS.Timeout | null = null;
-
-    constructor(private fxnClient: FxnClient) {
-        this.gameState = this.initializeGameState();
-        this.startGame();
+    private newState(): WordAileState {
+        return {
+            round: 0,
+            turn: 0,
+            maxGuesses: this.config.maxGuesses,
+            wordsToWin: this.config.wordsToWin,
+            boards: new Map(),
+            scores: new Map()
+        };
     }
 
-    private initializeGameState(): GameState {
+    public getSpectatorState(): WordAileSpectatorState {
         return {
-            players: new Map(),
-            phase: 'action',
-            currentRound: 1,
-            actionOrder: [],
-            isActive: true
+            game: 'wordaile',
+            matchId: this.matchId,
+            status: this.status,
+            deadline: this.deadline,
+            round: this.state.round,
+            turn: this.state.turn,
+            maxGuesses: this.config.maxGuesses,
+            wordsToWin: this.config.wordsToWin,
+            lastWord: this.lastWord,
+            lastWinners: this.lastWinners,
+            boards: getSpectatorBoards(this.state, this.status === 'revealing' || this.status === 'finished')
         };
     }
 
-    private assignRoles(players: string[]): void {
-        // Shuffle players
-        const shuffled = [...players].sort(() => Math.random() - 0.5);
-        
-        // Assign 2 impostors and rest as crew
-        shuffled.forEach((publicKey, index) => {
-            const role: PlayerRole = {
-                type: index < 2 ? 'impostor' : 'crewmate',
-                room: Math.floor(Math.random() * 6) // Random room 0-5
-            };
-
-            this.gameState.players.set(publicKey, {
-                publicKey,
-                role,
-                isAlive: true
-            });
-        });
+    /**
+     * Leaderboard of every finished match with the rewards paid
+     */
+    public async getWinners(): Promise<LeaderboardEntry[]> {
+        return buildWordAileLeaderboard(await this.matchHistory.list(), await this.rewards.listPayouts());
     }
 
-    private async startGame(): Promise<void> {
-        const subscribers = await this.fxnClient.getSubscribers();
-        let activePlayers = subscribers
-            .filter(sub => sub.status === 'active')
-            .map(sub => sub.subscriber.toString());
+    private notifySpectators(): void {
+        this.emit('update', this.getSpectatorState());
+    }
 
-        // Add bot players if needed
-        while (activePlayers.length < 6) {
-            activePlayers.push(`bot-${activePlayers.length + 1}`);
+    /**
+     * Stop the timer; the current match is abandoned
+     */
+    public stop(): void {
+        this.status = 'stopped';
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
         }
-
-        this.assignRoles(activePlayers);
-        this.gameState.actionOrder = this.shuffleActionOrder();
-        await this.startRound();
     }
 
-    private shuffleActionOrder(): string[] {
-        return Array.from(this.gameState.players.keys())
-            .filter(key => this.gameState.players.get(key)?.isAlive)
-            .sort(() => Math.random() - 0.5);
+    private schedule(callback: () => Promise<void>, delay: number): void {
+        if (this.status === 'stopped') return;
+        this.timer = setTimeout(async () => {
+            try {
+                await callback();
+            } catch (error) {
+                // Never let one broken round take the host down, start a fresh word
+                console.error('WordAIle error, starting a new round:', error);
+                this.schedule(() => this.startRound(), this.config.roundDelay);
+            }
+        }, delay);
     }
 
-    private async startRound(): Promise<void> {
-        if (!this.gameState.isActive) return;  // Add guard clause
-        
-        this.gameState.phase = 'action';
-        this.gameState.actionOrder = this.shuffleActionOrder();
-        
-        // Clear previous timers
-        if (this.phaseTimer) {
-            clearTimeout(this.phaseTimer);
-        }
-        
-        await this.broadcastGameState();
-        this.phaseTimer = setTimeout(() => this.startMovementPhase(), this.ACTION_DURATION);
+    private async announce(announcement: Record<string, any>): Promise<void> {
+        const subscribers = await this.fxnClient.getSubscribers();
+        await this.fxnClient.broadcastToSubscribers(
+            { type: 'announcement', matchId: this.matchId, announcement },
+            subscribers
+        );
     }
 
+    private async startMatch(): Promise<void> {
+        this.matchId = randomUUID();
+        this.startedAt = Date.now();
+        this.state = this.newState();
+        this.words = [];
+        this.lastWinners = [];
+        console.log(`Starting WordAIle match ${this.matchId}`);
+
+        // Send payouts left over from earlier matches without holding up the game
+        this.rewards.processPending().catch(error => {
+            console.error('Failed to process pending payouts:', error);
+        });
 
-    private async startMovementPhase(): Promise<void> {
-        this.gameState.phase = 'movement';
-        await this.broadcastGameState();
-        
-        this.phaseTimer = setTimeout(() => this.processRound(), this.MOVEMENT_DURATION);
+        await this.startRound();
     }
 
-    private async startVotingPhase(accusedPlayer: string): Promise<void> {
-        this.gameState.phase = 'voting';
-        this.gameState.accusedPlayer = accusedPlayer;
-        this.gameState.votingResults = new Map();
-        await this.broadcastGameState();
-
-        this.phaseTimer = setTimeout(() => this.processVotes(), this.VOTING_DURATION);
+    private async startRound(): Promise<void> {
+        this.state.round++;
+        this.state.turn = 0;
+        this.secret = DICTIONARY[Math.floor(Math.random() * DICTIONARY.length)];
+        this.words.push(this.secret);
+        this.state.boards = new Map();
+        console.log(`WordAIle round ${this.state.round} started`);
+
+        await this.startTurn();
     }
 
-    private async processVotes(): Promise<void> {
-        if (!this.gameState.votingResults || !this.gameState.accusedPlayer) return;
-        
-        const votes = new Map<string, number>();
-        votes.set('skip', 0);
+    private async startTurn(): Promise<void> {
+        this.state.turn++;
+        this.status = 'playing';
+        this.pendingGuesses = new Map();
+        this.deadline = Date.now() + this.config.turnDuration;
+        this.notifySpectators();
 
-        // Count votes
-        this.gameState.votingResults.forEach((target) => {
-            votes.set(target, (votes.get(target) || 0) + 1);
-        });
+        await this.broadcastTurn();
+        this.schedule(() => this.endTurn(), Math.max(0, this.deadline - Date.now()));
+    }
 
-        // Find highest vote count
-        let maxVotes = 0;
-        let ejected: string | null = null;
-        votes.forEach((count, target) => {
-            if (count > maxVotes) {
-                maxVotes = count;
-                ejected = target;
+    /**
+     * Score this turn's guesses, then end the match, the round or the turn
+     */
+    private async endTurn(): Promise<void> {
+        const { boards, scores } = this.state;
+        this.pendingGuesses.forEach((guess, publicKey) => {
+            const board = boards.get(publicKey) || { guesses: [], solved: false };
+            board.guesses.push({ word: guess, feedback: scoreGuess(guess, this.secret) });
+            if (guess === this.secret) {
+                board.solved = true;
+                scores.set(publicKey, (scores.get(publicKey) || 0) + 1);
             }
+            boards.set(publicKey, board);
         });
 
-        // Eject player if majority
-        if (ejected && ejected !== 'skip') {
-            const player = this.gameState.players.get(ejected);
-            if (player) player.isAlive = false;
+        const winners = Array.from(scores.entries())
+            .filter(([, score]) => score >= this.config.wordsToWin)
+            .map(([publicKey]) => publicKey);
+        if (winners.length > 0) {
+            await this.finishMatch(winners);
+            return;
         }
 
-        await this.checkWinCondition();
-        if (this.gameState.isActive) {
-            await this.startRound();
+        const everyoneDone = boards.size > 0 &&
+            Array.from(boards.values()).every(board => board.solved || board.guesses.length >= this.config.maxGuesses);
+        if (everyoneDone || this.state.turn >= this.config.maxGuesses) {
+            await this.revealWord();
+            return;
         }
+
+        await this.startTurn();
     }
 
-    private async processRound(): Promise<void> {
-        console.log("Processing round...");
-        console.log("All player states before processing:", 
-            Array.from(this.gameState.players.values())
-                .map(p => ({
-                    publicKey: p.publicKey,
-                    lastAction: p.lastAction,
-                    lastMovement: p.lastMovement,
-                    role: p.role,
-                    isAlive: p.isAlive
-                }))
-        );
-        
-        // Clear any existing timers
-        if (this.phaseTimer) {
-            clearTimeout(this.phaseTimer);
-            this.phaseTimer = null;
-        }
-        if (this.roundTimer) {
-            clearTimeout(this.roundTimer);
-            this.roundTimer = null;
-        }
-        
-        // Process kills first
-        for (const [publicKey, player] of this.gameState.players.entries()) {
-            if (player.lastAction?.type === 'kill' && player.lastAction.target) {
-                const target = this.gameState.players.get(player.lastAction.target);
-                if (target && target.isAlive && player.role.type === 'impostor') {
-                    // Verify same room and impostor status
-                    if (target.role.room === player.role.room) {
-                        target.isAlive = false;
-                        console.log(`Player ${target.publicKey} was killed by ${player.publicKey}`);
-                    }
-                }
-            }
-        }
-    
-        // Update positions based on movements
-        for (const [publicKey, player] of this.gameState.players.entries()) {
-            if (player.lastMovement?.type === 'clockwise') {
-                player.role.room = (player.role.room + 1) % 6;
-            } else if (player.lastMovement?.type === 'counterclockwise') {
-                player.role.room = (player.role.room + 5) % 6;
-            }
-        }
-    
-        // Clear only the action/movement records while preserving states
-        for (const [publicKey, player] of this.gameState.players.entries()) {
-            player.lastAction = undefined;
-            player.lastMovement = undefined;
-        }
-    
-        console.log("All player states after processing:", 
-            Array.from(this.gameState.players.values())
-                .map(p => ({
-                    publicKey: p.publicKey,
-                    room: p.role.room,
-                    isAlive: p.isAlive,
-                    role: p.role
-                }))
-        );
-    
-        await this.checkWinCondition();
-        console.log("Game state after win condition check:", {
-            isActive: this.gameState.isActive,
-            winner: this.gameState.winner,
-            alivePlayers: Array.from(this.gameState.players.values())
-                .filter(p => p.isAlive).length
-        });
+    private async revealWord(): Promise<void> {
+        this.status = 'revealing';
+        this.lastWord = this.secret;
+        this.deadline = Date.now() + this.config.roundDelay;
+        this.notifySpectators();
+        console.log(`WordAIle round ${this.state.round} over, the word was ${this.secret}`);
 
-        if (this.gameState.isActive) {
-            this.gameState.currentRound++;
-            await this.startRound();
-        } else {
-            // Broadcast final game state
-            await this.broadcastGameState();
-        }
+        await this.announce({ event: 'word_revealed', round: this.state.round, word: this.secret });
+        this.schedule(() => this.startRound(), this.config.roundDelay);
     }
 
-    private async broadcastGameState(): Promise<void> {
-        const subscribers = await this.fxnClient.getSubscribers();
-        console.log('Broadcasting game state to subscribers:', subscribers);
-        
-        // Handle real players
-        const promises = subscribers.map(async subscriber => {
-            try {
-                const publicKey = subscriber.subscriber.toString();
-                const playerView = this.getPlayerView(publicKey);
-                
-                if (subscriber.status === 'active') {
-                    const formattedMessage = {
-                        gameState: playerView,
-                        type: 'game_update'
-                    };
-                    
-                    console.log(`Broadcasting to ${publicKey}:`, formattedMessage);
-                    
-                    const response = await this.fxnClient.broadcastToSubscribers(
-                        formattedMessage, 
-                        [subscriber]
-                    );
-                    
-                    if (response?.[0]?.status === 'fulfilled') {
-                        const result = (response[0] as PromiseFulfilledResult<Response>).value;
-                        if (result.ok) {
-                            const responseData = await result.json();
-                            console.log(`Raw response data from ${publicKey}:`, responseData);
-                            
-                            const player = this.gameState.players.get(publicKey);
-                            if (!player || !player.isAlive) return;
-                    
-                            switch (this.gameState.phase) {
-                                case 'action':
-                                    if (responseData.type) {
-                                        // Validate kill actions
-                                        if (responseData.type === 'kill') {
-                                            if (player.role.type !== 'impostor') {
-                                                responseData.type = 'pass';
-                                            }
-                                        }
-                                        player.lastAction = responseData;
-                                        console.log(`Updated action for ${publicKey}:`, player.lastAction);
-                                    }
-                                    break;
-                                case 'movement':
-                                    if (responseData.type) {
-                                        player.lastMovement = responseData;
-                                        console.log(`Updated movement for ${publicKey}:`, player.lastMovement);
-                                    }
-                                    break;
-                                case 'voting':
-                                    if (responseData.target !== undefined) {
-                                        player.lastVote = responseData;
-                                        this.gameState.votingResults?.set(publicKey, responseData.target || 'skip');
-                                        console.log(`Updated vote for ${publicKey}:`, player.lastVote);
-                                    }
-                                    break;
-                            }
-                        }
-                    }
-                }
-            } catch (error) {
-                console.error(`Error communicating with subscriber:`, error);
-            }
-        });
-    
-        // Handle bot players
-        for (const [publicKey, player] of this.gameState.players.entries()) {
-            if (publicKey.startsWith('bot-') && player.isAlive) {
-                const playerView = this.getPlayerView(publicKey);
-                const botDecision = await this.makeBotDecision(playerView);
-
-                switch (this.gameState.phase) {
-                    case 'action':
-                        player.lastAction = botDecision;
-                        break;
-                    case 'movement':
-                        player.lastMovement = botDecision;
-                        break;
-                    case 'voting':
-                        player.lastVote = botDecision;
-                        this.gameState.votingResults?.set(publicKey, botDecision.target || 'skip');
-                        break;
-                }
+    /**
+     * Announce the winners, persist the match, pay out and queue the next one
+     */
+    private async finishMatch(winners: string[]): Promise<void> {
+        this.status = 'finished';
+        this.lastWord = this.secret;
+        this.lastWinners = winners;
+        this.deadline = Date.now() + this.config.nextMatchDelay;
+        this.notifySpectators();
+        console.log(`WordAIle match ${this.matchId} won by`, winners);
+
+        const record: WordAileMatchRecord = {
+            matchId: this.matchId,
+            startedAt: this.startedAt,
+            endedAt: Date.now(),
+            words: this.words,
+            scores: Object.fromEntries(this.state.scores),
+            winners
+        };
+
+        try {
+            await this.matchHistory.save(record);
+            if (this.config.rewardAmount > 0) {
+                await this.rewards.queuePayouts(
+                    this.matchId,
+                    winners.map(publicKey => ({ publicKey, amount: this.config.rewardAmount }))
+                );
             }
+        } catch (error) {
+            console.error(`Failed to save match ${this.matchId}:`, error);
         }
 
-        await Promise.all(promises);
-    }
-
-    private async checkWinCondition(): Promise<void> {
-        const alivePlayers = Array.from(this.gameState.players.values())
-            .filter(p => p.isAlive);
-        
-        const aliveImpostors = alivePlayers
-            .filter(p => p.role.type === 'impostor').length;
-        
-        const aliveCrew = alivePlayers.length - aliveImpostors;
-
-        console.log("Win condition check:", {
-            alivePlayers: alivePlayers.length,
-            aliveImpostors,
-            aliveCrew
+        await this.announce({
+            event: 'match_over',
+            winners,
+            word: this.secret,
+            scores: record.scores,
+            nextMatchIn: this.config.nextMatchDelay
         });
 
-        if (aliveImpostors === 0) {
-            this.gameState.isActive = false;
-            this.gameState.winner = 'crew';
-        } else if (aliveCrew === 0) {
-            this.gameState.isActive = false;
-            this.gameState.winner = 'impostors';
+        let payouts: Payout[] = [];
+        try {
+            payouts = (await this.rewards.processPending()).filter(p => p.matchId === record.matchId);
+        } catch (error) {
+            console.error(`Failed to pay rewards for match ${this.matchId}:`, error);
+        }
+        if (payouts.length > 0) {
+            await this.announce({
+                event: 'rewards_paid',
+                payouts: payouts.map(({ publicKey, amount, status, signature }) => ({ publicKey, amount, status, signature }))
+            });
         }
-    }
-
 
-    private getPlayerView(publicKey: string): any {
-        const player = this.gameState.players.get(publicKey);
-        const isImpostor = player?.role.type === 'impostor';
+        this.schedule(() => this.startMatch(), this.config.nextMatchDelay);
+    }
 
-        return {
-            phase: this.gameState.phase,
-            currentRound: this.gameState.currentRound,
-            actionOrder: this.gameState.actionOrder,
-            accusedPlayer: this.gameState.accusedPlayer,
-            yourRole: player?.role,
-            players: Array.from(this.gameState.players.values()).map(p => ({
-                publicKey: p.publicKey,
-                isAlive: p.isAlive,
-                room: p.role.room,
-                role: isImpostor ? p.role.type : undefined,
-                lastAction: p.lastAction,
-                lastVote: p.lastVote
-            })),
-            winner: this.gameState.winner
-        };
+    private recordGuess(publicKey: string, response: any): void {
+        const result = parseGuess(this.state, publicKey, response);
+        if ('error' in result) {
+            console.log(`Ignoring guess from ${publicKey}: ${result.error}`);
+            return;
+        }
+        this.pendingGuesses.set(publicKey, result.input);
     }
 
-    private async makeBotDecision(gameState: any): Promise<any> {
-        const isImpostor = gameState.yourRole.type === 'impostor';
-        const phase = gameState.phase;
+    private async broadcastTurn(): Promise<void> {
+        const subscribers = await this.fxnClient.getSubscribers();
 
-        switch (phase) {
-            case 'action':
-                if (isImpostor && Math.random() < 0.3) { // 30% chance to kill
-                    const potentialTargets = gameState.players.filter((p: any) => 
-                        p.isAlive && p.room === gameState.yourRole.room && !p.role
+        const promises = subscribers
+            .filter(subscriber => subscriber.status === 'active')
+            .map(async subscriber => {
+                try {
+                    const publicKey = subscriber.subscriber.toString();
+                    const result = await this.fxnClient.requestDecision(
+                        subscriber,
+                        { matchId: this.matchId, round: this.state.round, phase: 'guess' },
+                        this.deadline,
+                        getWordAileView(this.state, publicKey)
                     );
-                    if (potentialTargets.length > 0) {
-                        const target = potentialTargets[Math.floor(Math.random() * potentialTargets.length)];
-                        return { type: 'kill', target: target.publicKey };
-                    }
-                }
-                return { type: 'pass' };
 
-            case 'movement':
-                const movements = ['stay', 'clockwise', 'counterclockwise'];
-                return { type: movements[Math.floor(Math.random() * movements.length)] };
-
-            case 'voting':
-                if (Math.random() < 0.7) { // 70% chance to vote for accused
-                    return { target: gameState.accusedPlayer, voteText: 'Suspicious behavior' };
+                    if ('error' in result) {
+                        console.log(`Rejected guess from ${publicKey}: ${result.error}`);
+                        return;
+                    }
+                    this.recordGuess(publicKey, result.decision);
+                } catch (error) {
+                    console.error(`Error communicating with subscriber:`, error);
                 }
-                return { target: null, voteText: 'Not enough evidence' };
+            });
 
-            default:
-                return { type: 'pass' };
-        }
+        await Promise.all(promises);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,48 @@
+import {GameModule, GameView} from "./gameModule.ts";
+import {MatchHistory} from "./matchHistory.ts";
+import {getWordAileView, loadWordAileConfig, parseGuess, WordAileMatchRecord, WordAileState} from "./wordAile.ts";
+import {WordAileManager} from "./wordAileManager.ts";
+
+function createGuessPrompt(gameState: GameView): string {
+    const letterHints = { correct: 'green', present: 'yellow', absent: 'grey' };
+    const guesses = gameState.guesses
+        .map((g: any) => `- ${g.word}: ${g.feedback.map((f: string, i: number) => `${g.word[i]}=${letterHints[f]}`).join(' ')}`)
+        .join('\n');
+
+    return `You are playing WordAIle, a Wordle-style game. Guess the secret ${gameState.wordLength} letter English word.
+You have guessed ${gameState.wordsGuessed} of the ${gameState.wordsToWin} words needed to win, and have ${gameState.guessesLeft} guesses left for this word.
+
+Feedback on your guesses so far:
+${guesses || '- no guesses yet'}
+
+green: the letter is in the word at that position
+yellow: the letter is in the word at a different position
+grey: the word has no more of that letter
+
+Respond with only your next guess, a single ${gameState.wordLength} letter word`;
+}
+
+/**
+ * The first word of the right length in the model's reply
+ */
+function parseGuessResponse(text: string, gameState: GameView): any {
+    const guess = text.match(new RegExp(`\\b[a-zA-Z]{${gameState.wordLength}}\\b`))?.[0];
+    return { guess: guess?.toLowerCase() };
+}
+
+export const wordAileModule: GameModule<WordAileState, string> = {
+    name: 'wordaile',
+    phases: ['guess'],
+
+    createHost: ({ runtime, fxnClient, dataDir, rewards }) => new WordAileManager(
+        fxnClient,
+        loadWordAileConfig(runtime),
+        new MatchHistory<WordAileMatchRecord>(dataDir, 'wordaile_matches.jsonl'),
+        rewards
+    ),
+    getPlayerView: getWordAileView,
+    parseInput: parseGuess,
+
+    createPrompt: createGuessPrompt,
+    parseResponse: parseGuessResponse
+};
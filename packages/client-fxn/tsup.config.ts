@@ -6,6 +6,7 @@ export default defineConfig({
     sourcemap: true,
     clean: true,
     format: ["esm"], // Ensure you're targeting CommonJS
+    onSuccess: "cp -r src/templates dist/", // The host serves its spectator page from here
     external: [
         "dotenv", // Externalize dotenv to prevent bundling
         "fs", // Externalize fs to use Node.js built-in module
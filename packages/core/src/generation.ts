@@ -557,10 +557,12 @@ export async function generateObject({
     runtime,
     context,
     modelClass,
+    maxRetries = Infinity,
 }: {
     runtime: IAgentRuntime;
     context: string;
     modelClass: string;
+    maxRetries?: number; // Retries when the reply holds no JSON object, null once exhausted
 }): Promise<any> {
     if (!context) {
         elizaLogger.error("generateObject context is empty");
@@ -568,7 +570,7 @@ export async function generateObject({
     }
     let retryDelay = 1000;
 
-    while (true) {
+    for (let attempt = 0; ; attempt++) {
         try {
             console.log('generating from obj');
             // this is slightly different than generateObjectArray, in that we parse object, not object array
@@ -585,6 +587,9 @@ export async function generateObject({
             elizaLogger.error("Error in generateObject:", error);
         }
 
+        if (attempt >= maxRetries) {
+            return null;
+        }
         await new Promise((resolve) => setTimeout(resolve, retryDelay));
         retryDelay *= 2;
     }
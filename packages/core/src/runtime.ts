@@ -159,7 +159,10 @@ export class AgentRuntime implements IAgentRuntime {
         return serviceInstance as T;
     }
     registerService(service: Service): void {
-        const serviceType = (service as typeof Service).serviceType;
+        // Plugins list service classes or, to keep state per runtime, instances
+        const serviceType =
+            (service as typeof Service).serviceType ??
+            (service.constructor as typeof Service).serviceType;
         console.log("Registering service:", serviceType);
         if (this.services.has(serviceType)) {
             console.warn(
@@ -168,7 +171,7 @@ export class AgentRuntime implements IAgentRuntime {
             return;
         }
 
-        this.services.set((service as typeof Service).serviceType, service);
+        this.services.set(serviceType, service);
     }
 
     /**
@@ -0,0 +1,47 @@
+import { defaultCharacter } from "../defaultCharacter.ts";
+import { AgentRuntime } from "../runtime.ts";
+import {
+    IDatabaseAdapter,
+    ModelProviderName,
+    Service,
+    ServiceType,
+} from "../types.ts";
+
+class TestService extends Service {
+    static serviceType = ServiceType.PDF;
+    readonly id: string;
+
+    constructor(id = "instance") {
+        super();
+        this.id = id;
+    }
+}
+
+function createRuntime(services: Service[]) {
+    return new AgentRuntime({
+        databaseAdapter: {} as IDatabaseAdapter,
+        token: "",
+        modelProvider: ModelProviderName.OPENAI,
+        character: defaultCharacter,
+        services,
+    });
+}
+
+describe("registerService", () => {
+    it("should register a service class under its serviceType", () => {
+        const runtime = createRuntime([TestService as unknown as Service]);
+        expect(runtime.getService(ServiceType.PDF)).toBe(TestService);
+    });
+
+    it("should register a service instance under its class's serviceType", () => {
+        const service = new TestService();
+        const runtime = createRuntime([service]);
+        expect(runtime.getService(ServiceType.PDF)).toBe(service);
+    });
+
+    it("should keep the first service registered for a type", () => {
+        const first = new TestService("first");
+        const runtime = createRuntime([first, new TestService("second")]);
+        expect(runtime.getService<TestService>(ServiceType.PDF)).toBe(first);
+    });
+});
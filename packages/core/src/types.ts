@@ -757,6 +757,8 @@ export interface AgentEndpoint {
     agentId: string;
     name: string;
     apiKey?: string;
+    role?: CharacterRole["type"]; // Only the director may send control messages, actors take turns
+    order?: number; // An actor's CharacterRole.order, the only turn it may speak in
 }
 
 export interface AgentNetwork {
@@ -0,0 +1,199 @@
+import {
+    ActorMessage,
+    AgentNetwork,
+    IAgentRuntime,
+    Memory,
+    MessageBroadcaster,
+    PerformanceNetworkMessage,
+    UUID,
+} from "@ai16z/eliza/src/types.ts";
+import { DirectorHandler } from "../src/handlers.ts";
+import { PerformanceManager } from "../src/manager.ts";
+
+const settings = {
+    maxTweetCount: 5,
+    messagesPerBeat: 2,
+    heartbeatInterval: 1000,
+    actorCount: 2,
+};
+
+const actorIds: UUID[] = [
+    "00000000-0000-0000-0000-000000000001",
+    "00000000-0000-0000-0000-000000000002",
+];
+
+const network: AgentNetwork = {
+    endpoints: actorIds.map((agentId, order) => ({
+        agentId,
+        name: `Actor ${order}`,
+        url: `http://actor-${order}`,
+        role: "actor",
+        order,
+    })),
+};
+
+// Just what the manager and director use, memories kept in an array
+function createRuntime(memories: Memory[]) {
+    return {
+        agentId: "00000000-0000-0000-0000-000000000000",
+        character: { name: "Director", role: { type: "director", order: 0 } },
+        getSetting: () => null,
+        ensureRoomExists: async () => {},
+        messageManager: {
+            createMemory: jest.fn(async (memory: Memory) => {
+                memories.push(memory);
+            }),
+            getMemories: async ({ count }: { count: number }) =>
+                memories.slice(-count).reverse(),
+            removeAllMemories: async () => {
+                memories.length = 0;
+            },
+        },
+    } as unknown as IAgentRuntime;
+}
+
+async function setup() {
+    const memories: Memory[] = [];
+    const runtime = createRuntime(memories);
+    const manager = new PerformanceManager(
+        runtime,
+        settings,
+        "00000000-0000-0000-0000-0000000000aa"
+    );
+    let beats = 0;
+    jest.spyOn(manager, "generateNewBeat").mockImplementation(
+        async () => `Beat ${++beats}`
+    );
+
+    const sent: PerformanceNetworkMessage[] = [];
+    const broadcaster: MessageBroadcaster = {
+        broadcast: async (message) => {
+            sent.push(message);
+        },
+    };
+    const director = new DirectorHandler(runtime, manager, broadcaster, settings, network);
+    await director.startPerformance("A storm hits the harbour");
+    manager.setInitialized();
+
+    const tweet = async (actorNumber: number, text: string, performanceId?: string, senderId = actorIds[actorNumber]) => {
+        const message: ActorMessage = {
+            id: `${actorNumber}-${text}`,
+            timestamp: Date.now(),
+            source: "actor",
+            action: "TWEET_ACTION",
+            sender: { id: senderId, name: `Actor ${actorNumber}`, role: "actor", order: actorNumber },
+            payload: {
+                text,
+                actorNumber,
+                performanceId: performanceId ?? (await manager.getCurrentState()).id,
+            },
+        };
+        await director.handleMessage(message);
+    };
+    return { runtime, manager, director, sent, memories, tweet };
+}
+
+describe("DirectorHandler", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("should take turns, move the story on every few lines and end at maxTweetCount", async () => {
+        const { manager, sent, tweet } = await setup();
+
+        for (let line = 0; line < settings.maxTweetCount; line++) {
+            await tweet(line % settings.actorCount, `Line ${line}`);
+        }
+
+        expect(sent.map((message) => message.action)).toEqual([
+            "PERFORMANCE_START",
+            "STATE_UPDATE",
+            "BEAT",
+            "STATE_UPDATE",
+            "BEAT",
+            "END",
+        ]);
+        const state = await manager.getCurrentState();
+        expect(state.isLive).toBe(false);
+        expect(state.endReason).toBe("Reached 5 tweets");
+        expect(state.messages.map((message) => message.speaker)).toEqual([
+            actorIds[0],
+            actorIds[1],
+            actorIds[0],
+            actorIds[1],
+            actorIds[0],
+        ]);
+        expect(state.beats.map((beat) => beat.text)).toEqual([
+            "A storm hits the harbour",
+            "Beat 1",
+            "Beat 2",
+        ]);
+        // Every message carries the state it announces
+        expect(sent[sent.length - 1].payload).toMatchObject({ state: { isLive: false } });
+    });
+
+    it("should hold a line sent before its turn until the turn comes", async () => {
+        const { manager, sent, tweet } = await setup();
+
+        await tweet(1, "Too early");
+        expect((await manager.getCurrentState()).messageCount).toBe(0);
+        expect(sent).toHaveLength(1);
+
+        await tweet(0, "On time");
+        const state = await manager.getCurrentState();
+        expect(state.messages.map((message) => message.text)).toEqual(["On time", "Too early"]);
+        expect(sent[sent.length - 1].action).toBe("BEAT");
+    });
+
+    it("should ignore lines for another performance", async () => {
+        const { manager, sent, tweet } = await setup();
+
+        await tweet(0, "Wrong stage", "another-performance");
+
+        expect((await manager.getCurrentState()).messageCount).toBe(0);
+        expect(sent).toHaveLength(1);
+    });
+
+    it("should ignore lines sent in another actor's slot", async () => {
+        const { manager, sent, tweet } = await setup();
+
+        await tweet(0, "Not my turn to take", undefined, actorIds[1]);
+
+        expect((await manager.getCurrentState()).messageCount).toBe(0);
+        expect(sent).toHaveLength(1);
+    });
+
+    it("should send heartbeats without saving an unchanged state", async () => {
+        const { runtime, manager, director, sent } = await setup();
+        const saved = (runtime.messageManager.createMemory as jest.Mock).mock.calls.length;
+
+        await director.heartbeat();
+        await director.heartbeat();
+
+        expect(sent.map((message) => message.action)).toEqual([
+            "PERFORMANCE_START",
+            "DIRECTOR_HEARTBEAT",
+            "DIRECTOR_HEARTBEAT",
+        ]);
+        expect(runtime.messageManager.createMemory).toHaveBeenCalledTimes(saved);
+        expect((await manager.findExistingLivePerformance()).id).toBe(
+            (await manager.getCurrentState()).id
+        );
+    });
+
+    it("should pass a turn that ran out and save it", async () => {
+        const { runtime, manager, director, sent } = await setup();
+        const saved = (runtime.messageManager.createMemory as jest.Mock).mock.calls.length;
+        const later = Date.now() + 3 * settings.heartbeatInterval;
+        jest.spyOn(Date, "now").mockReturnValue(later);
+
+        await director.heartbeat();
+
+        const state = await manager.getCurrentState();
+        expect(state.actors.current).toBe(1);
+        expect(state.lastHeartbeat).toBe(later);
+        expect(state.events.map((event) => event.type)).toEqual(["officiating"]);
+        expect(runtime.messageManager.createMemory).toHaveBeenCalledTimes(saved + 1);
+        expect(sent[sent.length - 1].action).toBe("DIRECTOR_HEARTBEAT");
+    });
+});
@@ -0,0 +1,53 @@
+import { AgentNetwork, IAgentRuntime, PerformanceNetworkMessage } from "@ai16z/eliza/src/types.ts";
+import { isFromNetwork, loadPerformanceSettings } from "../src/network.ts";
+
+const network: AgentNetwork = {
+    endpoints: [
+        { agentId: "00000000-0000-0000-0000-000000000000", name: "Director", url: "http://director", role: "director" },
+        { agentId: "00000000-0000-0000-0000-000000000001", name: "Actor", url: "http://actor", role: "actor" },
+    ],
+};
+
+function message(
+    source: PerformanceNetworkMessage["source"],
+    action: PerformanceNetworkMessage["action"],
+    senderId: string
+) {
+    return {
+        id: "message",
+        timestamp: 0,
+        source,
+        action,
+        sender: { id: senderId, name: "Agent", role: "actor" },
+        payload: { text: "", performanceId: "performance", actorNumber: 0 },
+    } as PerformanceNetworkMessage;
+}
+
+describe("isFromNetwork", () => {
+    it("should only take director messages from the director", () => {
+        expect(isFromNetwork(network, message("director", "BEAT", network.endpoints[0].agentId))).toBe(true);
+        expect(isFromNetwork(network, message("director", "BEAT", network.endpoints[1].agentId))).toBe(false);
+        expect(
+            isFromNetwork(network, message("system", "CATCHUP_RESPONSE", network.endpoints[1].agentId))
+        ).toBe(false);
+    });
+
+    it("should take actor messages from any agent of the network", () => {
+        expect(isFromNetwork(network, message("actor", "TWEET_ACTION", network.endpoints[1].agentId))).toBe(true);
+        expect(isFromNetwork(network, message("system", "SYNC_REQUEST", network.endpoints[0].agentId))).toBe(true);
+    });
+
+    it("should not take messages from agents outside the network", () => {
+        expect(
+            isFromNetwork(network, message("actor", "TWEET_ACTION", "00000000-0000-0000-0000-000000000009"))
+        ).toBe(false);
+    });
+});
+
+describe("loadPerformanceSettings", () => {
+    const runtime = { getSetting: () => null } as unknown as IAgentRuntime;
+
+    it("should count the actors of the network, not the director", () => {
+        expect(loadPerformanceSettings(runtime, network).actorCount).toBe(1);
+    });
+});
@@ -0,0 +1,146 @@
+import {
+    addPerformanceMessage,
+    canActorSpeak,
+    createPerformanceState,
+    endPerformanceState,
+    getNextActor,
+    isNewerState,
+    isSameState,
+    setSkipList,
+    skipTurn,
+} from "../src/state.ts";
+
+const settings = {
+    maxTweetCount: 4,
+    messagesPerBeat: 2,
+    heartbeatInterval: 1000,
+    actorCount: 3,
+};
+
+function createState(now = 1000) {
+    return createPerformanceState("performance", "A storm hits the harbour", settings, now);
+}
+
+describe("getNextActor", () => {
+    it("should go round the actors in role order", () => {
+        const state = createState();
+        expect(getNextActor(state, 0)).toBe(1);
+        expect(getNextActor(state, 1)).toBe(2);
+        expect(getNextActor(state, 2)).toBe(0);
+    });
+
+    it("should pass over skipped actors", () => {
+        const state = setSkipList(createState(), [1]);
+        expect(getNextActor(state, 0)).toBe(2);
+        expect(getNextActor(state, 2)).toBe(0);
+    });
+
+    it("should stay with the actor when everyone else is skipped", () => {
+        const state = setSkipList(createState(), [1, 2]);
+        expect(getNextActor(state, 0)).toBe(0);
+    });
+});
+
+describe("setSkipList", () => {
+    it("should pass the turn on when the current actor is skipped", () => {
+        const state = setSkipList(createState(), [0, 1]);
+        expect(state.actors.skipList).toEqual([0, 1]);
+        expect(state.actors.current).toBe(2);
+    });
+
+    it("should keep the turn with an actor who still plays", () => {
+        const state = setSkipList(createState(), [2]);
+        expect(state.actors.current).toBe(0);
+    });
+
+    it("should leave the earlier state as it was", () => {
+        const state = createState();
+        setSkipList(state, [0]);
+        expect(state.actors.skipList).toEqual([]);
+        expect(state.actors.current).toBe(0);
+    });
+});
+
+describe("skipTurn", () => {
+    it("should pass the turn to the next actor and note it", () => {
+        const state = skipTurn(createState(), 5000);
+        expect(state.actors.current).toBe(1);
+        expect(state.lastActionTime).toBe(5000);
+        expect(state.events).toEqual([
+            {
+                type: "officiating",
+                timestamp: 5000,
+                actorNumber: 0,
+                description: "Actor 0 let their turn run out",
+            },
+        ]);
+    });
+
+    it("should pass over skipped actors", () => {
+        const state = skipTurn(setSkipList(createState(), [1]), 5000);
+        expect(state.actors.current).toBe(2);
+    });
+});
+
+describe("isNewerState", () => {
+    it("should take any state when there is none yet", () => {
+        expect(isNewerState(createState(), null)).toBe(true);
+    });
+
+    it("should take later states of the same performance", () => {
+        const state = createState();
+        const later = addPerformanceMessage(
+            state,
+            { speaker: "a", text: "Batten down!", actorNumber: 0 },
+            2000
+        );
+        expect(isNewerState(later, state)).toBe(true);
+        expect(isNewerState(state, later)).toBe(false);
+    });
+
+    it("should take a performance started after the current one", () => {
+        const current = addPerformanceMessage(
+            createState(1000),
+            { speaker: "a", text: "Batten down!", actorNumber: 0 },
+            9000
+        );
+        const next = createPerformanceState("next", "Calm seas", settings, 2000);
+        const earlier = createPerformanceState("earlier", "Calm seas", settings, 500);
+        expect(isNewerState(next, current)).toBe(true);
+        expect(isNewerState(earlier, current)).toBe(false);
+    });
+});
+
+describe("isSameState", () => {
+    it("should only ignore the last heartbeat", () => {
+        const state = createState();
+        expect(isSameState(state, { ...state, lastHeartbeat: 9000 })).toBe(true);
+        expect(isSameState(state, setSkipList(state, [2]))).toBe(false);
+    });
+});
+
+describe("canActorSpeak", () => {
+    it("should only let the current actor speak", () => {
+        const state = createState();
+        expect(canActorSpeak(state, 0)).toBe(true);
+        expect(canActorSpeak(state, 1)).toBe(false);
+        expect(canActorSpeak(null, 0)).toBe(false);
+    });
+
+    it("should not let anyone speak in a paused or ended performance", () => {
+        const state = createState();
+        expect(canActorSpeak({ ...state, isPaused: true }, 0)).toBe(false);
+        expect(canActorSpeak(endPerformanceState(state, "Done"), 0)).toBe(false);
+    });
+
+    it("should not let anyone speak past maxTweetCount", () => {
+        const state = { ...createState(), messageCount: settings.maxTweetCount };
+        expect(canActorSpeak(state, 0)).toBe(false);
+    });
+
+    it("should not let a skipped actor speak", () => {
+        const state = createState();
+        const skipped = { ...state, actors: { ...state.actors, skipList: [0] } };
+        expect(canActorSpeak(skipped, 0)).toBe(false);
+    });
+});
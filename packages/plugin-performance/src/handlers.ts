@@ -0,0 +1,369 @@
+import { randomUUID } from "crypto";
+import { composeContext } from "@ai16z/eliza/src/context.ts";
+import { generateText } from "@ai16z/eliza/src/generation.ts";
+import {
+    ActorMessage,
+    ActorMessageHandler,
+    AgentMetadata,
+    AgentNetwork,
+    ControlMessage,
+    DirectorMessageHandler,
+    IAgentRuntime,
+    MessageBroadcaster,
+    ModelClass,
+    PerformanceActionType,
+    PerformanceMetadata,
+    PerformanceNetworkMessage,
+    SyncMessage,
+} from "@ai16z/eliza/src/types.ts";
+import { PerformanceManager } from "./manager.ts";
+import { addBeat, canActorSpeak, PerformanceSettings, setSkipList, skipTurn } from "./state.ts";
+
+const actorLineTemplate = `
+# About {{agentName}} (@{{twitterUserName}})
+{{bio}}
+{{lore}}
+
+# Current beat
+{{currentBeat}}
+
+# Recent lines
+{{recentPerformanceActions}}
+
+{{agentName}} is {{characterRole}} in a live performance and it is their turn.
+Write {{agentName}}'s next tweet, in character and under 280 characters, reacting to the recent lines and moving the current beat along.
+Respond with the tweet only.`;
+
+function getSender(runtime: IAgentRuntime): AgentMetadata {
+    return {
+        id: runtime.agentId,
+        name: runtime.character.name,
+        role: runtime.character.role?.type ?? "actor",
+        order: runtime.character.role?.order,
+    };
+}
+
+/**
+ * Runs messages one at a time, in the order they arrived
+ */
+class MessageQueue {
+    private processing: Promise<void> = Promise.resolve();
+
+    run(task: () => Promise<void>): Promise<void> {
+        this.processing = this.processing.then(task).catch((error) => {
+            console.error("Failed to handle performance message:", error);
+        });
+        return this.processing;
+    }
+}
+
+/**
+ * Starts performances and keeps them moving: it takes each actor's line in
+ * turn, writes a new beat every few lines, ends the performance at
+ * maxTweetCount and sends its state with every change and heartbeat. Actors
+ * who stop answering heartbeats are skipped until they answer again, and a
+ * turn that runs out passes to the next actor. An actor only speaks for the
+ * order its endpoint has in the network.
+ */
+export class DirectorHandler implements DirectorMessageHandler {
+    private queue = new MessageQueue();
+    private lastSeen = new Map<number, number>(); // actorNumber -> last message from them
+    private since = Date.now(); // Actors get until three intervals after this to be heard from
+
+    constructor(
+        private runtime: IAgentRuntime,
+        private manager: PerformanceManager,
+        private broadcaster: MessageBroadcaster,
+        private settings: PerformanceSettings,
+        private network: AgentNetwork
+    ) {}
+
+    handleMessage(message: PerformanceNetworkMessage): Promise<void> {
+        return this.queue.run(async () => {
+            if (message.source === "actor") {
+                await this.handleActorMessage(message);
+            } else if (
+                message.source === "system" &&
+                (message.action === "SYNC_REQUEST" ||
+                    message.action === "CATCHUP_REQUEST")
+            ) {
+                await this.handleSyncRequest(message);
+            }
+        });
+    }
+
+    async handleActorMessage(message: ActorMessage): Promise<void> {
+        const { actorNumber, performanceId, text } = message.payload;
+        const endpoint = this.network.endpoints.find(
+            (endpoint) => endpoint.agentId === message.sender.id
+        );
+        if (endpoint?.order !== actorNumber) {
+            console.warn(
+                `Ignoring ${message.action} from ${message.sender.id} as actor ${actorNumber}, not the order it has in the network`
+            );
+            return;
+        }
+        this.lastSeen.set(actorNumber, Date.now());
+
+        const state = await this.manager.getCurrentState();
+        if (
+            message.action !== "TWEET_ACTION" ||
+            this.manager.isInInitialization() ||
+            !state?.isLive ||
+            performanceId !== state.id
+        ) {
+            return;
+        }
+
+        if (await this.manager.canActorSpeak(actorNumber)) {
+            await this.manager.addMessage(text, message.sender.id, actorNumber);
+        } else {
+            // Sent before the actor heard the turn moved to them
+            await this.manager.queueMessage(text, message.sender.id, actorNumber);
+        }
+
+        const updated = await this.manager.getCurrentState();
+        if (updated.messageCount >= updated.maxTweetCount) {
+            await this.broadcastEnd(`Reached ${updated.maxTweetCount} tweets`);
+        } else if (updated.messagesSinceLastBeat >= this.settings.messagesPerBeat) {
+            await this.broadcastBeat(await this.manager.generateNewBeat());
+        } else if (updated.messageCount > state.messageCount) {
+            await this.send("STATE_UPDATE", text);
+        }
+    }
+
+    async handleSyncRequest(message: SyncMessage): Promise<void> {
+        const state = await this.manager.getCurrentState();
+        if (!state) {
+            return;
+        }
+        await this.broadcaster.broadcast({
+            id: randomUUID(),
+            timestamp: Date.now(),
+            source: "system",
+            action: "CATCHUP_RESPONSE",
+            sender: getSender(this.runtime),
+            payload: {
+                performanceId: state.id,
+                requesterId: message.sender.id,
+                text: state.currentBeat,
+                state,
+            },
+        });
+    }
+
+    /**
+     * Start a performance, on `prompt` or PERFORMANCE_PROMPT or a premise
+     * the director writes
+     */
+    async startPerformance(prompt?: string): Promise<void> {
+        const premise =
+            prompt ||
+            this.runtime.getSetting("PERFORMANCE_PROMPT") ||
+            (await this.manager.generateInitialPrompt());
+        await this.manager.initializePerformance(premise);
+        this.lastSeen.clear();
+        await this.send("PERFORMANCE_START", premise);
+    }
+
+    async broadcastBeat(beat: string): Promise<void> {
+        const state = await this.manager.getCurrentState();
+        await this.manager.updateState(addBeat(state, beat));
+        await this.send("BEAT", beat);
+    }
+
+    async broadcastEnd(reason: PerformanceMetadata["endReason"]): Promise<void> {
+        await this.manager.endPerformance(reason);
+        await this.send("END", reason);
+    }
+
+    async notifyRecovery(): Promise<void> {
+        await this.send("DIRECTOR_RECOVERY", "The director is back");
+    }
+
+    /**
+     * Skip silent actors, pass a turn that ran out and send the state to
+     * everyone. Called every heartbeatInterval, the state is only saved when
+     * it changed.
+     */
+    heartbeat(): Promise<void> {
+        return this.queue.run(async () => {
+            const current = await this.manager.getCurrentState();
+            if (!current?.isLive || this.manager.isInInitialization()) {
+                return;
+            }
+
+            const now = Date.now();
+            const interval = this.settings.heartbeatInterval;
+            let state = current;
+            const since = Math.max(state.startTime, this.since);
+            const silent = Array.from({ length: state.actors.total }, (_, i) => i)
+                .filter((actorNumber) => now - (this.lastSeen.get(actorNumber) ?? since) > 3 * interval);
+            // Skipping everyone would stop the performance, wait for someone to answer instead
+            const skipList = silent.length < state.actors.total ? silent : [];
+            if (skipList.join() !== (state.actors.skipList ?? []).join()) {
+                state = setSkipList(state, skipList);
+            }
+            if (now - state.lastActionTime > 2 * interval) {
+                state = skipTurn(state, now);
+            }
+
+            if (state !== current) {
+                await this.manager.updateState(state);
+            }
+            this.manager.recordHeartbeat(now);
+            await this.send("DIRECTOR_HEARTBEAT", state.currentBeat);
+        });
+    }
+
+    private async send(action: PerformanceActionType, text: string): Promise<void> {
+        const state = await this.manager.getCurrentState();
+        const message: ControlMessage = {
+            id: randomUUID(),
+            timestamp: Date.now(),
+            source: "director",
+            action,
+            sender: getSender(this.runtime),
+            payload: { text, performanceId: state.id, state },
+        };
+        await this.broadcaster.broadcast(message);
+    }
+}
+
+/**
+ * Follows the director's state and speaks when the turn comes to this
+ * actor's CharacterRole.order. Answers heartbeats, and asks to catch up when
+ * the director goes quiet or a message came without a state.
+ */
+export class ActorHandler implements ActorMessageHandler {
+    private queue = new MessageQueue();
+    private lastTurn: number | null = null; // lastActionTime of the state this actor last spoke on
+    readonly actorNumber: number;
+
+    constructor(
+        private runtime: IAgentRuntime,
+        private manager: PerformanceManager,
+        private broadcaster: MessageBroadcaster
+    ) {
+        this.actorNumber = runtime.character.role?.order ?? 0;
+    }
+
+    handleMessage(message: PerformanceNetworkMessage): Promise<void> {
+        return this.queue.run(async () => {
+            if (message.source === "director") {
+                await this.handleControlMessage(message);
+            } else if (
+                message.source === "system" &&
+                message.action === "CATCHUP_RESPONSE"
+            ) {
+                await this.handleSyncResponse(message);
+            }
+        });
+    }
+
+    async handleControlMessage(message: ControlMessage): Promise<void> {
+        const { state } = message.payload;
+        if (!state || !this.manager.validateState(state as PerformanceMetadata)) {
+            await this.requestSync();
+            return;
+        }
+
+        await this.manager.syncState(state as PerformanceMetadata);
+        this.manager.setInitialized();
+        if (message.action === "DIRECTOR_HEARTBEAT") {
+            await this.sendAction("HEARTBEAT_RESPONSE", "");
+        }
+        this.takeTurnIfDue();
+    }
+
+    async handleSyncResponse(message: SyncMessage): Promise<void> {
+        const { requesterId, state } = message.payload;
+        if ((requesterId && requesterId !== this.runtime.agentId) || !state) {
+            return;
+        }
+        await this.manager.syncState(state);
+        this.manager.setInitialized();
+        this.takeTurnIfDue();
+    }
+
+    async broadcastAction(text: string): Promise<void> {
+        await this.sendAction("TWEET_ACTION", text);
+    }
+
+    async requestSync(): Promise<void> {
+        await this.sendSync("CATCHUP_REQUEST");
+    }
+
+    async notifyRecovery(): Promise<void> {
+        await this.sendSync("SYNC_REQUEST");
+    }
+
+    /**
+     * Catch up if the director has gone quiet. Called every heartbeatInterval.
+     */
+    async checkStale(): Promise<void> {
+        if (this.manager.isStale()) {
+            console.warn("No director heartbeat for a while, asking to catch up");
+            await this.requestSync();
+        }
+    }
+
+    /**
+     * Speak once per state that gives this actor the turn. Not queued: the
+     * line takes a while to write and heartbeats must not wait for it.
+     */
+    private takeTurnIfDue(): void {
+        this.manager.getCurrentState().then(async (state) => {
+            if (!canActorSpeak(state, this.actorNumber) || this.lastTurn === state.lastActionTime) {
+                return;
+            }
+            this.lastTurn = state.lastActionTime;
+
+            const context = composeContext({
+                state: await this.manager.composeGenerationState(),
+                template: actorLineTemplate,
+            });
+            const line = await generateText({
+                runtime: this.runtime,
+                context,
+                modelClass: ModelClass.SMALL,
+            });
+            await this.broadcastAction(line.trim());
+        }).catch((error) => {
+            console.error("Failed to take a performance turn:", error);
+        });
+    }
+
+    private async sendAction(action: PerformanceActionType, text: string): Promise<void> {
+        const state = await this.manager.getCurrentState();
+        const message: ActorMessage = {
+            id: randomUUID(),
+            timestamp: Date.now(),
+            source: "actor",
+            action,
+            sender: getSender(this.runtime),
+            payload: {
+                text,
+                performanceId: state?.id ?? "",
+                actorNumber: this.actorNumber,
+            },
+        };
+        await this.broadcaster.broadcast(message);
+    }
+
+    private async sendSync(action: PerformanceActionType): Promise<void> {
+        const state = await this.manager.getCurrentState();
+        await this.broadcaster.broadcast({
+            id: randomUUID(),
+            timestamp: Date.now(),
+            source: "system",
+            action,
+            sender: getSender(this.runtime),
+            payload: {
+                performanceId: state?.id ?? "",
+                requesterId: this.runtime.agentId,
+                text: "",
+            },
+        });
+    }
+}
@@ -0,0 +1,27 @@
+import { Plugin } from "@ai16z/eliza/src/types.ts";
+import { PerformanceService } from "./service.ts";
+
+export * from "./state.ts";
+export { ActorHandler, DirectorHandler } from "./handlers.ts";
+export { PerformanceManager } from "./manager.ts";
+export { HttpBroadcaster, loadNetwork, loadPerformanceSettings } from "./network.ts";
+export { startPerformanceServer } from "./server.ts";
+export { PerformanceService };
+
+/**
+ * A plugin with its own PerformanceService, one per agent: each runtime
+ * plays its own part
+ */
+export function createPerformancePlugin(): Plugin {
+    return {
+        name: "performance",
+        description:
+            "Multi-agent performances: a director sets the beats, actors take turns",
+        actions: [],
+        evaluators: [],
+        providers: [],
+        services: [new PerformanceService()],
+    };
+}
+
+export default createPerformancePlugin;
@@ -0,0 +1,319 @@
+import { randomUUID } from "crypto";
+import { composeContext } from "@ai16z/eliza/src/context.ts";
+import { generateText } from "@ai16z/eliza/src/generation.ts";
+import {
+    IAgentRuntime,
+    IPerformanceService,
+    Memory,
+    ModelClass,
+    PerformanceContent,
+    PerformanceMetadata,
+    State,
+    UUID,
+} from "@ai16z/eliza/src/types.ts";
+import {
+    addPerformanceMessage,
+    canActorSpeak,
+    createPerformanceState,
+    endPerformanceState,
+    isNewerState,
+    isSameState,
+    PerformanceSettings,
+    validatePerformanceState,
+} from "./state.ts";
+
+const initialPromptTemplate = `
+# About {{agentName}}
+{{bio}}
+{{lore}}
+
+{{agentName}} is directing a live performance between several characters on Twitter.
+Write the opening premise of the scene in two or three sentences: where it takes place, what is at stake and who starts the trouble.
+Respond with the premise only.`;
+
+const beatTemplate = `
+# About {{agentName}}
+{{bio}}
+
+# The story so far
+{{performanceBeats}}
+
+# Recent lines
+{{recentPerformanceActions}}
+
+{{agentName}} is directing this performance. {{messageCount}} of at most {{maxTweetCount}} lines have been performed.
+Write the next story beat in one or two sentences: a twist, an escalation or, near the end, a resolution that follows from the recent lines.
+Respond with the beat only.`;
+
+type PerformanceStateManager = IPerformanceService["manager"];
+
+/**
+ * Holds an agent's view of the performance and keeps it in the
+ * messageManager, one memory per change, so a restarted agent picks the
+ * performance back up. The director's state is authoritative: actors only
+ * replace theirs with newer states they are sent.
+ */
+export class PerformanceManager implements PerformanceStateManager {
+    private state: PerformanceMetadata | null = null;
+    private initialized = false;
+    // Lines that arrived before their actor's turn, at most one per actor
+    private queued = new Map<number, { text: string; speakerId: UUID }>();
+
+    constructor(
+        private runtime: IAgentRuntime,
+        private settings: PerformanceSettings,
+        readonly roomId: UUID
+    ) {}
+
+    async getCurrentState(): Promise<PerformanceMetadata | null> {
+        return this.state;
+    }
+
+    async updateState(state: Partial<PerformanceMetadata>): Promise<void> {
+        if (!this.state) {
+            throw new Error("No performance to update");
+        }
+        this.state = { ...this.state, ...state };
+        await this.saveStateToMemory(this.state);
+    }
+
+    /**
+     * Take on a state sent by another agent, if it is valid and newer. Only
+     * saved when more than its heartbeat changed.
+     */
+    async syncState(newState: PerformanceMetadata): Promise<void> {
+        if (!this.validateState(newState)) {
+            console.warn("Ignoring an invalid performance state");
+            return;
+        }
+        if (!isNewerState(newState, this.state)) {
+            return;
+        }
+        const changed = !this.state || !isSameState(newState, this.state);
+        this.state = newState;
+        if (changed) {
+            await this.saveStateToMemory(newState);
+        }
+    }
+
+    /**
+     * Note a director heartbeat. Kept in memory only, a saved state per
+     * heartbeat would fill the room for as long as the performance runs.
+     */
+    recordHeartbeat(timestamp = Date.now()): void {
+        if (this.state) {
+            this.state = { ...this.state, lastHeartbeat: timestamp };
+        }
+    }
+
+    async initializePerformance(prompt: string): Promise<void> {
+        this.state = createPerformanceState(randomUUID(), prompt, this.settings);
+        this.queued.clear();
+        await this.saveStateToMemory(this.state);
+        console.log(`Performance ${this.state.id} started: ${prompt}`);
+    }
+
+    async endPerformance(reason: string): Promise<void> {
+        if (!this.state?.isLive) {
+            return;
+        }
+        this.state = endPerformanceState(this.state, reason);
+        this.queued.clear();
+        await this.saveStateToMemory(this.state);
+        console.log(`Performance ${this.state.id} ended: ${reason}`);
+    }
+
+    /**
+     * Write the next beat from how the performance went so far. Only the
+     * text, broadcasting it makes it current.
+     */
+    async generateNewBeat(): Promise<string> {
+        const context = composeContext({
+            state: await this.composeGenerationState(),
+            template: beatTemplate,
+        });
+        const beat = await generateText({
+            runtime: this.runtime,
+            context,
+            modelClass: ModelClass.SMALL,
+        });
+        return beat.trim();
+    }
+
+    validateState(state: PerformanceMetadata): boolean {
+        return validatePerformanceState(state);
+    }
+
+    /**
+     * The live performance as last saved, if the latest saved state is live
+     */
+    async findExistingLivePerformance(): Promise<PerformanceMetadata | null> {
+        const memories = await this.runtime.messageManager.getMemories({
+            roomId: this.roomId,
+            count: 10,
+            unique: false,
+        });
+        const latest = memories.find(
+            (memory) =>
+                memory.content.source === "control" &&
+                (memory.content as PerformanceContent).metadata?.performance
+        );
+        const state = (latest?.content as PerformanceContent)?.metadata
+            .performance;
+        return state?.isLive && this.validateState(state) ? state : null;
+    }
+
+    setInitialized(): void {
+        this.initialized = true;
+    }
+
+    isInInitialization(): boolean {
+        return !this.initialized;
+    }
+
+    async saveStateToMemory(state: PerformanceMetadata): Promise<void> {
+        await this.runtime.ensureRoomExists(this.roomId);
+        const content: PerformanceContent = {
+            text: state.currentBeat,
+            source: "control",
+            metadata: {
+                performance: state,
+                agent: {
+                    name: this.runtime.character.name,
+                    id: this.runtime.agentId,
+                    timestamp: Date.now(),
+                },
+            },
+        };
+        await this.runtime.messageManager.createMemory({
+            id: randomUUID() as UUID,
+            userId: this.runtime.agentId,
+            agentId: this.runtime.agentId,
+            roomId: this.roomId,
+            content,
+            createdAt: Date.now(),
+        });
+    }
+
+    async composeGenerationState(): Promise<State> {
+        const state = this.state;
+        const memory: Memory = {
+            userId: this.runtime.agentId,
+            agentId: this.runtime.agentId,
+            roomId: this.roomId,
+            content: {
+                text: state?.currentBeat ?? "",
+                source: "performance_generation",
+                metadata: { performance: state },
+            },
+        };
+        return this.runtime.composeState(memory, {
+            performanceState: JSON.stringify(state, null, 2),
+            currentBeat: state?.currentBeat ?? "",
+            performanceBeats: (state?.beats ?? [])
+                .map((beat, i) => `${i + 1}. ${beat.text}`)
+                .join("\n"),
+            recentPerformanceActions: (state?.messages ?? [])
+                .slice(-10)
+                .map((m) => `Actor ${m.actorNumber} (${m.speaker}): ${m.text}`)
+                .join("\n"),
+            messageCount: state?.messageCount ?? 0,
+            maxTweetCount: state?.maxTweetCount ?? this.settings.maxTweetCount,
+            messagesSinceLastBeat: state?.messagesSinceLastBeat ?? 0,
+            characterRole: this.runtime.character.role
+                ? `${this.runtime.character.role.type} ${this.runtime.character.role.order}`
+                : "",
+        });
+    }
+
+    async getLastSpeaker(): Promise<{
+        actorNumber: number;
+        timestamp: number;
+    } | null> {
+        const last = this.state?.messages[this.state.messages.length - 1];
+        return last
+            ? { actorNumber: last.actorNumber, timestamp: last.timestamp }
+            : null;
+    }
+
+    async canActorSpeak(actorNumber: number): Promise<boolean> {
+        return canActorSpeak(this.state, actorNumber);
+    }
+
+    /**
+     * Hold a line until its actor's turn, when addMessage plays it
+     */
+    async queueMessage(
+        text: string,
+        speakerId: UUID,
+        actorNumber = this.runtime.character.role?.order ?? 0
+    ): Promise<void> {
+        this.queued.set(actorNumber, { text, speakerId });
+        await this.playQueued();
+    }
+
+    /**
+     * Record a line of the actor whose turn it is, then any queued line of
+     * the actors after them
+     */
+    async addMessage(
+        text: string,
+        speakerId: UUID,
+        actorNumber = this.runtime.character.role?.order ?? 0
+    ): Promise<void> {
+        if (!canActorSpeak(this.state, actorNumber)) {
+            throw new Error(`It is not actor ${actorNumber}'s turn`);
+        }
+        this.state = addPerformanceMessage(this.state, {
+            speaker: speakerId,
+            text,
+            actorNumber,
+        });
+        await this.saveStateToMemory(this.state);
+        await this.playQueued();
+    }
+
+    private async playQueued(): Promise<void> {
+        const actorNumber = this.state?.actors.current;
+        const line = this.queued.get(actorNumber);
+        if (line && canActorSpeak(this.state, actorNumber)) {
+            this.queued.delete(actorNumber);
+            await this.addMessage(line.text, line.speakerId, actorNumber);
+        }
+    }
+
+    /**
+     * No director heartbeat for three intervals
+     */
+    isStale(): boolean {
+        return (
+            !!this.state?.isLive &&
+            Date.now() - this.state.lastHeartbeat >
+                3 * this.settings.heartbeatInterval
+        );
+    }
+
+    async deleteAllMemories(): Promise<void> {
+        await this.runtime.messageManager.removeAllMemories(this.roomId);
+    }
+
+    async deleteAllPerformanceData(): Promise<void> {
+        await this.deleteAllMemories();
+        this.state = null;
+        this.queued.clear();
+        this.initialized = false;
+    }
+
+    async generateInitialPrompt(): Promise<string> {
+        const context = composeContext({
+            state: await this.composeGenerationState(),
+            template: initialPromptTemplate,
+        });
+        const prompt = await generateText({
+            runtime: this.runtime,
+            context,
+            modelClass: ModelClass.SMALL,
+        });
+        return prompt.trim();
+    }
+}
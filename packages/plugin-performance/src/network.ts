@@ -0,0 +1,118 @@
+import fs from "fs";
+import {
+    AgentNetwork,
+    IAgentRuntime,
+    MessageBroadcaster,
+    PerformanceNetworkMessage,
+} from "@ai16z/eliza/src/types.ts";
+import { PerformanceSettings } from "./state.ts";
+
+export const PERFORMANCE_PATH = "/performance";
+
+/**
+ * The other agents of the performance, from PERFORMANCE_NETWORK: an
+ * AgentNetwork object, as JSON or the path of a JSON file like
+ * network-config.json
+ */
+export function loadNetwork(runtime: IAgentRuntime): AgentNetwork {
+    const setting = runtime.getSetting("PERFORMANCE_NETWORK") as any;
+    if (!setting) {
+        return { endpoints: [] };
+    }
+    if (typeof setting !== "string") {
+        return setting as AgentNetwork;
+    }
+
+    const json = setting.trim().startsWith("{")
+        ? setting
+        : fs.readFileSync(setting, "utf-8");
+    try {
+        return JSON.parse(json) as AgentNetwork;
+    } catch (error) {
+        throw new Error(`Invalid PERFORMANCE_NETWORK: ${error.message}`);
+    }
+}
+
+/**
+ * Whether a message comes from an agent of the network that may send it:
+ * director messages and catch-up answers from the endpoint marked director,
+ * actor messages and sync requests from any endpoint
+ */
+export function isFromNetwork(
+    network: AgentNetwork,
+    message: PerformanceNetworkMessage
+): boolean {
+    const fromDirector =
+        message.source === "director" ||
+        message.action === "CATCHUP_RESPONSE";
+    return network.endpoints.some(
+        (endpoint) =>
+            endpoint.agentId === message.sender.id &&
+            (!fromDirector || endpoint.role === "director")
+    );
+}
+
+export function loadPerformanceSettings(
+    runtime: IAgentRuntime,
+    network: AgentNetwork
+): PerformanceSettings {
+    const numberSetting = (key: string, fallback: number) => {
+        const value = Number(runtime.getSetting(key));
+        return Number.isFinite(value) && value > 0 ? value : fallback;
+    };
+    return {
+        maxTweetCount: numberSetting("PERFORMANCE_MAX_TWEETS", 20),
+        messagesPerBeat: numberSetting("PERFORMANCE_MESSAGES_PER_BEAT", 4),
+        heartbeatInterval: numberSetting("PERFORMANCE_HEARTBEAT_MS", 30000),
+        // A director's network lists its actors next to itself
+        actorCount: numberSetting(
+            "PERFORMANCE_ACTOR_COUNT",
+            Math.max(
+                1,
+                network.endpoints.filter((endpoint) => endpoint.role === "actor").length
+            )
+        ),
+    };
+}
+
+/**
+ * POSTs every message to each agent of the network. An agent that is down
+ * only misses the message: heartbeats and catch-up requests resync it.
+ */
+export class HttpBroadcaster implements MessageBroadcaster {
+    constructor(
+        private network: AgentNetwork,
+        private timeout = 10000
+    ) {}
+
+    async broadcast(message: PerformanceNetworkMessage): Promise<void> {
+        await Promise.allSettled(
+            this.network.endpoints.map(async (endpoint) => {
+                try {
+                    const response = await fetch(
+                        `${endpoint.url}${PERFORMANCE_PATH}`,
+                        {
+                            method: "POST",
+                            headers: {
+                                "Content-Type": "application/json",
+                                ...(endpoint.apiKey && {
+                                    "X-API-Key": endpoint.apiKey,
+                                }),
+                            },
+                            body: JSON.stringify(message),
+                            signal: AbortSignal.timeout(this.timeout),
+                        }
+                    );
+                    if (!response.ok) {
+                        throw new Error(`HTTP error! status: ${response.status}`);
+                    }
+                } catch (error) {
+                    console.error(
+                        `Failed to send ${message.action} to ${endpoint.name}:`,
+                        error.message
+                    );
+                }
+            })
+        );
+    }
+}
@@ -0,0 +1,77 @@
+import http from "http";
+import { PerformanceNetworkMessage } from "@ai16z/eliza/src/types.ts";
+import { PERFORMANCE_PATH } from "./network.ts";
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+function isPerformanceMessage(message: any): message is PerformanceNetworkMessage {
+    return (
+        typeof message?.action === "string" &&
+        ["director", "actor", "system"].includes(message.source) &&
+        typeof message.sender?.id === "string" &&
+        typeof message.payload === "object" &&
+        message.payload !== null
+    );
+}
+
+/**
+ * Takes the network's messages on POST /performance. Requests need
+ * `X-API-Key: <apiKey>` when one is set. Messages are acknowledged before
+ * they are handled, so a slow handler never times out the sender. Server
+ * errors, like a port already in use, go to `onError` instead of taking the
+ * process down.
+ */
+export function startPerformanceServer(
+    port: number,
+    apiKey: string | undefined,
+    onMessage: (message: PerformanceNetworkMessage) => Promise<void>,
+    onError: (error: Error) => void
+): http.Server {
+    const server = http.createServer((req, res) => {
+        const reply = (status: number, body: object) => {
+            res.writeHead(status, { "Content-Type": "application/json" });
+            res.end(JSON.stringify(body));
+        };
+
+        if (req.method !== "POST" || req.url !== PERFORMANCE_PATH) {
+            return reply(404, { error: "Not found" });
+        }
+        if (apiKey && req.headers["x-api-key"] !== apiKey) {
+            return reply(401, { error: "Invalid API key" });
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on("data", (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reply(413, { error: "Message too large" });
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on("end", () => {
+            let message: any;
+            try {
+                message = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+            } catch {
+                return reply(400, { error: "Invalid JSON" });
+            }
+            if (!isPerformanceMessage(message)) {
+                return reply(400, { error: "Not a performance message" });
+            }
+
+            reply(202, { received: true });
+            onMessage(message).catch((error) => {
+                console.error(`Failed to handle ${message.action}:`, error);
+            });
+        });
+    });
+
+    server.on("error", onError);
+    server.listen(port, () => {
+        console.log(`Performance server listening on port ${port}`);
+    });
+    return server;
+}
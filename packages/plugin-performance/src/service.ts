@@ -0,0 +1,149 @@
+import http from "http";
+import {
+    IAgentRuntime,
+    IPerformanceService,
+    MessageBroadcaster,
+    Service,
+    ServiceType,
+} from "@ai16z/eliza/src/types.ts";
+import { stringToUuid } from "@ai16z/eliza/src/uuid.ts";
+import { ActorHandler, DirectorHandler } from "./handlers.ts";
+import { PerformanceManager } from "./manager.ts";
+import {
+    HttpBroadcaster,
+    isFromNetwork,
+    loadNetwork,
+    loadPerformanceSettings,
+} from "./network.ts";
+import { startPerformanceServer } from "./server.ts";
+
+// Ports of the performance servers in this process, each agent needs its own
+const claimedPorts = new Set<number>();
+
+/**
+ * A multi-agent performance. The character's role decides the part: the
+ * director runs the performance, actors take turns in role order. Agents
+ * reach each other over HTTP, see PERFORMANCE_NETWORK, and only take
+ * messages from the agents listed there.
+ */
+export class PerformanceService extends Service implements IPerformanceService {
+    static serviceType: ServiceType = ServiceType.PERFORMANCE;
+
+    manager: PerformanceManager;
+    messageHandler: DirectorHandler | ActorHandler;
+    broadcaster: MessageBroadcaster;
+    private server?: http.Server;
+    private port?: number;
+    private heartbeatTimer?: NodeJS.Timeout;
+
+    constructor() {
+        super();
+    }
+
+    initialize(runtime: IAgentRuntime): void {
+        const role = runtime.character.role;
+        if (!role) {
+            throw new Error("The performance service needs a character with a role");
+        }
+        if (this.manager) {
+            return;
+        }
+
+        const network = loadNetwork(runtime);
+        const settings = loadPerformanceSettings(runtime, network);
+        this.manager = new PerformanceManager(
+            runtime,
+            settings,
+            stringToUuid(network.roomId ?? "performance")
+        );
+        this.broadcaster = new HttpBroadcaster(network);
+        const director =
+            role.type === "director"
+                ? new DirectorHandler(runtime, this.manager, this.broadcaster, settings, network)
+                : null;
+        const actor = director
+            ? null
+            : new ActorHandler(runtime, this.manager, this.broadcaster);
+        this.messageHandler = director ?? actor;
+
+        // Without a server the service stays idle, its manager without a performance
+        const apiKey = runtime.getSetting("PERFORMANCE_API_KEY");
+        if (!apiKey && network.endpoints.length > 0) {
+            console.error(
+                "PERFORMANCE_API_KEY must be set to take messages from PERFORMANCE_NETWORK. Performance disabled."
+            );
+            return;
+        }
+        const port = Number(runtime.getSetting("PERFORMANCE_PORT")) || 3100;
+        if (claimedPorts.has(port)) {
+            console.error(
+                `PERFORMANCE_PORT ${port} is taken by another agent, set a distinct one in ${runtime.character.name}'s settings. Performance disabled.`
+            );
+            return;
+        }
+        claimedPorts.add(port);
+        this.port = port;
+
+        this.server = startPerformanceServer(
+            port,
+            apiKey || undefined,
+            async (message) => {
+                if (!isFromNetwork(network, message)) {
+                    console.warn(
+                        `Ignoring ${message.action} from ${message.sender.id}, not an agent of the network allowed to send it`
+                    );
+                    return;
+                }
+                await this.messageHandler.handleMessage(message);
+            },
+            (error) => {
+                console.error(
+                    `Performance server failed on port ${port}, performance disabled:`,
+                    error.message
+                );
+                this.stop();
+            }
+        );
+        this.heartbeatTimer = setInterval(() => {
+            (director ? director.heartbeat() : actor.checkStale()).catch((error) => {
+                console.error("Performance heartbeat failed:", error);
+            });
+        }, settings.heartbeatInterval);
+
+        this.resume(director).catch((error) => {
+            console.error("Failed to start the performance:", error);
+        });
+    }
+
+    /**
+     * Pick up the live performance saved before a restart and tell the
+     * network, or else start one (director) or ask to catch up (actor)
+     */
+    private async resume(director: DirectorHandler | null): Promise<void> {
+        const existing = await this.manager.findExistingLivePerformance();
+        if (!this.server) {
+            return; // Stopped, or the server could not start
+        }
+        if (existing) {
+            await this.manager.syncState(existing);
+            this.manager.setInitialized();
+            await this.messageHandler.notifyRecovery();
+            return;
+        }
+
+        if (director) {
+            await director.startPerformance();
+            this.manager.setInitialized();
+        } else {
+            await this.messageHandler.notifyRecovery();
+        }
+    }
+
+    stop(): void {
+        clearInterval(this.heartbeatTimer);
+        this.server?.close();
+        this.server = undefined;
+        claimedPorts.delete(this.port);
+        this.port = undefined;
+    }
+}
@@ -0,0 +1,218 @@
+import { PerformanceMetadata } from "@ai16z/eliza/src/types.ts";
+
+export interface PerformanceSettings {
+    maxTweetCount: number; // The performance ends once this many actor messages are in
+    messagesPerBeat: number; // The director moves the story on after this many messages
+    heartbeatInterval: number; // ms between director heartbeats
+    actorCount: number;
+}
+
+/**
+ * A fresh live performance opening on `prompt`, actor 0 to speak first
+ */
+export function createPerformanceState(
+    id: string,
+    prompt: string,
+    settings: PerformanceSettings,
+    now = Date.now()
+): PerformanceMetadata {
+    return {
+        id,
+        currentBeat: prompt,
+        isLive: true,
+        isPaused: false,
+        startTime: now,
+        maxTweetCount: settings.maxTweetCount,
+        messageCount: 0,
+        lastSpeaker: null,
+        lastActionTime: now,
+        lastHeartbeat: now,
+        messagesSinceLastBeat: 0,
+        actors: {
+            total: settings.actorCount,
+            current: 0,
+            lastTweetTimes: new Array(settings.actorCount).fill(0),
+            skipList: [],
+        },
+        messages: [],
+        beats: [{ text: prompt, timestamp: now }],
+        events: [],
+    };
+}
+
+export function validatePerformanceState(state: PerformanceMetadata): boolean {
+    return (
+        !!state &&
+        typeof state.id === "string" &&
+        typeof state.currentBeat === "string" &&
+        Number.isInteger(state.maxTweetCount) &&
+        state.maxTweetCount > 0 &&
+        Number.isInteger(state.messageCount) &&
+        state.messageCount >= 0 &&
+        Number.isInteger(state.actors?.total) &&
+        state.actors.total > 0 &&
+        Number.isInteger(state.actors.current) &&
+        state.actors.current >= 0 &&
+        state.actors.current < state.actors.total &&
+        Array.isArray(state.messages) &&
+        Array.isArray(state.beats) &&
+        Array.isArray(state.events)
+    );
+}
+
+/**
+ * Whether `candidate` is further along the same performance than `current`,
+ * or a performance started after it
+ */
+export function isNewerState(
+    candidate: PerformanceMetadata,
+    current: PerformanceMetadata | null
+): boolean {
+    if (!current) {
+        return true;
+    }
+    if (candidate.id !== current.id) {
+        return candidate.startTime > current.startTime;
+    }
+    return candidate.lastActionTime >= current.lastActionTime;
+}
+
+/**
+ * Whether the states differ in more than the director's last heartbeat
+ */
+export function isSameState(
+    a: PerformanceMetadata,
+    b: PerformanceMetadata
+): boolean {
+    return (
+        JSON.stringify({ ...a, lastHeartbeat: 0 }) ===
+        JSON.stringify({ ...b, lastHeartbeat: 0 })
+    );
+}
+
+/**
+ * The actor after `actorNumber` in role order, passing over skipped actors.
+ * Stays with `actorNumber` when everyone else is skipped.
+ */
+export function getNextActor(
+    state: PerformanceMetadata,
+    actorNumber: number
+): number {
+    const skipped = new Set(state.actors.skipList ?? []);
+    for (let step = 1; step <= state.actors.total; step++) {
+        const next = (actorNumber + step) % state.actors.total;
+        if (!skipped.has(next)) {
+            return next;
+        }
+    }
+    return actorNumber;
+}
+
+export function canActorSpeak(
+    state: PerformanceMetadata | null,
+    actorNumber: number
+): boolean {
+    return (
+        !!state &&
+        state.isLive &&
+        !state.isPaused &&
+        state.messageCount < state.maxTweetCount &&
+        state.actors.current === actorNumber &&
+        !(state.actors.skipList ?? []).includes(actorNumber)
+    );
+}
+
+/**
+ * Record an actor's line and pass the turn on
+ */
+export function addPerformanceMessage(
+    state: PerformanceMetadata,
+    message: { speaker: string; text: string; actorNumber: number },
+    now = Date.now()
+): PerformanceMetadata {
+    const lastTweetTimes = [...state.actors.lastTweetTimes];
+    lastTweetTimes[message.actorNumber] = now;
+    return {
+        ...state,
+        messageCount: state.messageCount + 1,
+        messagesSinceLastBeat: state.messagesSinceLastBeat + 1,
+        lastSpeaker: message.speaker,
+        lastActionTime: now,
+        actors: {
+            ...state.actors,
+            current: getNextActor(state, message.actorNumber),
+            lastTweetTimes,
+        },
+        messages: [...state.messages, { ...message, timestamp: now }],
+    };
+}
+
+export function addBeat(
+    state: PerformanceMetadata,
+    text: string,
+    now = Date.now()
+): PerformanceMetadata {
+    return {
+        ...state,
+        currentBeat: text,
+        messagesSinceLastBeat: 0,
+        lastActionTime: now,
+        beats: [...state.beats, { text, timestamp: now }],
+    };
+}
+
+/**
+ * Pass the turn of an actor who let it run out, noting it in the events
+ */
+export function skipTurn(
+    state: PerformanceMetadata,
+    now = Date.now()
+): PerformanceMetadata {
+    const actorNumber = state.actors.current;
+    return {
+        ...state,
+        lastActionTime: now,
+        actors: { ...state.actors, current: getNextActor(state, actorNumber) },
+        events: [
+            ...state.events,
+            {
+                type: "officiating",
+                timestamp: now,
+                actorNumber,
+                description: `Actor ${actorNumber} let their turn run out`,
+            },
+        ],
+    };
+}
+
+/**
+ * Put actors on or off the skip list, keeping the turn with someone who plays
+ */
+export function setSkipList(
+    state: PerformanceMetadata,
+    skipList: number[]
+): PerformanceMetadata {
+    const next = { ...state, actors: { ...state.actors, skipList } };
+    if (skipList.includes(next.actors.current)) {
+        next.actors.current = getNextActor(next, next.actors.current);
+    }
+    return next;
+}
+
+export function endPerformanceState(
+    state: PerformanceMetadata,
+    reason: string,
+    now = Date.now()
+): PerformanceMetadata {
+    return {
+        ...state,
+        isLive: false,
+        endTime: now,
+        endReason: reason,
+        lastActionTime: now,
+        events: [
+            ...state.events,
+            { type: "ending", timestamp: now, actorNumber: -1, description: reason },
+        ],
+    };
+}